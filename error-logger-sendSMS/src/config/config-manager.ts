@@ -1,4 +1,18 @@
-import type { NotificationConfig, RetryPolicy, SanitizationConfig } from '../types/index.js';
+import type {
+  MaskingStrategy,
+  NotificationConfig,
+  RoutingConfig,
+  SanitizationConfig
+} from '../types/index.js';
+import {
+  mergeBreadcrumbConfig,
+  mergeDeduplicationConfig,
+  mergeDigestConfig,
+  mergeOutboxConfig,
+  mergeRateLimitConfig,
+  mergeRetryPolicy,
+  mergeSanitizationConfig
+} from '../types/defaults.js';
 import { EnvironmentDetector } from './environment-detector.js';
 
 export class ConfigManager {
@@ -14,8 +28,29 @@ export class ConfigManager {
       environment: initialConfig.environment || this.environmentDetector.detect(),
       discord: initialConfig.discord,
       slack: initialConfig.slack,
-      retry: this.mergeRetryPolicy(initialConfig.retry),
-      sanitization: this.mergeSanitizationConfig(initialConfig.sanitization)
+      teams: initialConfig.teams,
+      telegram: initialConfig.telegram,
+      pagerduty: initialConfig.pagerduty,
+      webhook: initialConfig.webhook,
+      sms: initialConfig.sms,
+      email: initialConfig.email,
+      providers: initialConfig.providers,
+      providerOptions: initialConfig.providerOptions,
+      routing: initialConfig.routing,
+      retry: mergeRetryPolicy(initialConfig.retry),
+      sanitization: mergeSanitizationConfig(initialConfig.sanitization),
+      deduplication: mergeDeduplicationConfig(initialConfig.deduplication),
+      rateLimit: mergeRateLimitConfig(initialConfig.rateLimit),
+      breadcrumbs: mergeBreadcrumbConfig(initialConfig.breadcrumbs),
+      digest: mergeDigestConfig(initialConfig.digest),
+      outbox: mergeOutboxConfig(initialConfig.outbox),
+      eventProcessors: initialConfig.eventProcessors,
+      beforeSend: initialConfig.beforeSend,
+      sampleRates: initialConfig.sampleRates,
+      sampler: initialConfig.sampler,
+      ignoreErrors: initialConfig.ignoreErrors,
+      denyUrls: initialConfig.denyUrls,
+      allowUrls: initialConfig.allowUrls
     };
 
     this.validate();
@@ -30,11 +65,26 @@ export class ConfigManager {
       ...this.config,
       ...updates,
       retry: updates.retry
-        ? this.mergeRetryPolicy({ ...this.config.retry, ...updates.retry })
+        ? mergeRetryPolicy({ ...this.config.retry, ...updates.retry })
         : this.config.retry,
       sanitization: updates.sanitization
-        ? this.mergeSanitizationConfig({ ...this.config.sanitization, ...updates.sanitization })
-        : this.config.sanitization
+        ? mergeSanitizationConfig({ ...this.config.sanitization, ...updates.sanitization })
+        : this.config.sanitization,
+      deduplication: updates.deduplication
+        ? mergeDeduplicationConfig({ ...this.config.deduplication, ...updates.deduplication })
+        : this.config.deduplication,
+      rateLimit: updates.rateLimit
+        ? mergeRateLimitConfig({ ...this.config.rateLimit, ...updates.rateLimit })
+        : this.config.rateLimit,
+      breadcrumbs: updates.breadcrumbs
+        ? mergeBreadcrumbConfig({ ...this.config.breadcrumbs, ...updates.breadcrumbs })
+        : this.config.breadcrumbs,
+      digest: updates.digest
+        ? mergeDigestConfig({ ...this.config.digest, ...updates.digest })
+        : this.config.digest,
+      outbox: updates.outbox
+        ? mergeOutboxConfig({ ...this.config.outbox, ...updates.outbox })
+        : this.config.outbox
     };
 
     this.validate();
@@ -44,48 +94,87 @@ export class ConfigManager {
     this.config.environment = environment;
   }
 
-  private mergeRetryPolicy(partial?: Partial<RetryPolicy>): RetryPolicy {
-    return {
-      maxAttempts: partial?.maxAttempts ?? 3,
-      baseDelay: partial?.baseDelay ?? 1000,
-      maxDelay: partial?.maxDelay ?? 30000,
-      jitter: partial?.jitter ?? true
-    };
-  }
+  private validate(): void {
+    // Provider presence and webhook URLs are validated by each provider's validateConfig()
 
-  private mergeSanitizationConfig(partial?: Partial<SanitizationConfig>): SanitizationConfig {
-    return {
-      enabled: partial?.enabled ?? true,
-      customPatterns: partial?.customPatterns,
-      excludeDefaults: partial?.excludeDefaults ?? false
-    };
-  }
+    if (this.config.routing) {
+      this.validateRouting(this.config.routing);
+    }
 
-  private validate(): void {
-    // At least one provider must be configured
-    if (!this.config.discord && !this.config.slack) {
-      throw new Error('At least one provider (discord or slack) must be configured');
+    if (this.config.sanitization) {
+      this.validateSanitization(this.config.sanitization);
+    }
+
+    // Validate deduplication window
+    const deduplication = this.config.deduplication;
+    if (deduplication?.windowMs !== undefined && deduplication.windowMs < 1000) {
+      throw new Error('deduplication.windowMs must be at least 1000ms');
+    }
+    if (deduplication?.stackFrames !== undefined && deduplication.stackFrames < 0) {
+      throw new Error('deduplication.stackFrames must not be negative');
+    }
+
+    // Validate rate limit queue
+    if (this.config.rateLimit?.maxQueueSize !== undefined && this.config.rateLimit.maxQueueSize < 1) {
+      throw new Error('rateLimit.maxQueueSize must be at least 1');
+    }
+
+    // Validate breadcrumb buffer size
+    const maxBreadcrumbs = this.config.breadcrumbs?.maxBreadcrumbs;
+    if (maxBreadcrumbs !== undefined && (maxBreadcrumbs < 0 || maxBreadcrumbs > 100)) {
+      throw new Error('breadcrumbs.maxBreadcrumbs must be between 0 and 100');
+    }
+
+    // Validate digest interval
+    if (this.config.digest?.intervalMs !== undefined && this.config.digest.intervalMs < 1000) {
+      throw new Error('digest.intervalMs must be at least 1000ms');
+    }
+
+    // Validate outbox caps
+    const outbox = this.config.outbox;
+    if (outbox?.enabled) {
+      if (!outbox.directory) {
+        throw new Error('outbox.directory is required');
+      }
+      if (outbox.maxItems !== undefined && outbox.maxItems < 1) {
+        throw new Error('outbox.maxItems must be at least 1');
+      }
+      if (outbox.maxBytes !== undefined && outbox.maxBytes < 1024) {
+        throw new Error('outbox.maxBytes must be at least 1024');
+      }
+      if (outbox.maxAgeMs !== undefined && outbox.maxAgeMs < 1000) {
+        throw new Error('outbox.maxAgeMs must be at least 1000ms');
+      }
     }
 
-    // Validate Discord webhook URL
-    if (this.config.discord?.webhookUrl) {
-      const discordUrl = this.config.discord.webhookUrl;
-      if (!discordUrl.startsWith('https://')) {
-        throw new Error('Discord webhook URL must use HTTPS');
+    // Validate hooks
+    if (this.config.eventProcessors !== undefined) {
+      if (!Array.isArray(this.config.eventProcessors)) {
+        throw new Error('eventProcessors must be an array');
       }
-      if (!discordUrl.includes('discord.com')) {
-        throw new Error('Invalid Discord webhook URL');
+      if (this.config.eventProcessors.some(processor => typeof processor !== 'function')) {
+        throw new Error('eventProcessors must only contain functions');
       }
     }
+    if (this.config.beforeSend !== undefined && typeof this.config.beforeSend !== 'function') {
+      throw new Error('beforeSend must be a function');
+    }
 
-    // Validate Slack webhook URL
-    if (this.config.slack?.webhookUrl) {
-      const slackUrl = this.config.slack.webhookUrl;
-      if (!slackUrl.startsWith('https://')) {
-        throw new Error('Slack webhook URL must use HTTPS');
+    // Validate sampling
+    for (const [severity, rate] of Object.entries(this.config.sampleRates ?? {})) {
+      if (typeof rate !== 'number' || rate < 0 || rate > 1) {
+        throw new Error(`sampleRates.${severity} must be between 0 and 1`);
       }
-      if (!slackUrl.includes('slack.com')) {
-        throw new Error('Invalid Slack webhook URL');
+    }
+    if (this.config.sampler !== undefined && typeof this.config.sampler !== 'function') {
+      throw new Error('sampler must be a function');
+    }
+
+    // Validate ignore rules
+    for (const key of ['ignoreErrors', 'denyUrls', 'allowUrls'] as const) {
+      const patterns = this.config[key];
+      if (patterns !== undefined && !Array.isArray(patterns)) {
+        throw new Error(`${key} must be an array`);
       }
     }
 
@@ -103,4 +192,61 @@ export class ConfigManager {
       }
     }
   }
+
+  private validateSanitization(sanitization: Partial<SanitizationConfig>): void {
+    const strategies: Array<[string, MaskingStrategy | undefined]> = [
+      ['sanitization.strategy', sanitization.strategy],
+      ...Object.entries(sanitization.patternStrategies ?? {})
+        .map(([pattern, strategy]): [string, MaskingStrategy] => [`sanitization.patternStrategies["${pattern}"]`, strategy]),
+      ...Object.entries(sanitization.keyStrategies ?? {})
+        .map(([key, strategy]): [string, MaskingStrategy] => [`sanitization.keyStrategies["${key}"]`, strategy])
+    ];
+
+    for (const [label, strategy] of strategies) {
+      if (strategy === undefined || strategy === 'redact' || strategy === 'remove') {
+        continue;
+      }
+      if (strategy === 'hash') {
+        if (!sanitization.hashKey) {
+          throw new Error(`${label}: sanitization.hashKey is required for the hash strategy`);
+        }
+        continue;
+      }
+      if (typeof strategy !== 'object' || strategy === null) {
+        throw new Error(`${label} must be 'redact', 'hash', 'remove' or a partial mask`);
+      }
+
+      const counts = [strategy.keepFirst, strategy.keepLast];
+      if (counts.every(count => count === undefined)) {
+        throw new Error(`${label} must set keepFirst or keepLast`);
+      }
+      if (counts.some(count => count !== undefined && (!Number.isInteger(count) || count < 0))) {
+        throw new Error(`${label}: keepFirst and keepLast must be non-negative integers`);
+      }
+    }
+  }
+
+  private validateRouting(routing: RoutingConfig): void {
+    if (!Array.isArray(routing.rules)) {
+      throw new Error('routing.rules must be an array');
+    }
+
+    routing.rules.forEach((rule, index) => {
+      const label = rule.name ? `Routing rule "${rule.name}"` : `Routing rule ${index}`;
+
+      if (!rule.match) {
+        throw new Error(`${label} must define match conditions`);
+      }
+      if (!Array.isArray(rule.targets) || rule.targets.length === 0) {
+        throw new Error(`${label} must define at least one target`);
+      }
+      if (typeof rule.match.message === 'string') {
+        try {
+          new RegExp(rule.match.message);
+        } catch {
+          throw new Error(`${label} has an invalid message pattern`);
+        }
+      }
+    });
+  }
 }
@@ -1,20 +1,118 @@
 import type {
+  Breadcrumb,
+  DeliveryReport,
+  DeliveryStatus,
+  DroppedCounts,
+  EventProcessor,
   NotificationConfig,
   ErrorNotification,
   ErrorSeverity,
   IErrorLogger,
-  NotificationProvider
+  NotificationProvider,
+  ProviderDelivery,
+  ProviderFactory,
+  ProviderFactoryContext,
+  ChannelStats,
+  GlobalHandlerOptions,
+  OutboxConfig,
+  OutboxEntry,
+  ScopeUser,
+  SourceLocation
 } from './types/index.js';
 import { ConfigManager } from './config/config-manager.js';
 import { DataSanitizer } from './utils/data-sanitizer.js';
 import { RetryManager } from './utils/retry-manager.js';
+import { NotificationRouter } from './utils/notification-router.js';
+import { NotificationFilter } from './utils/notification-filter.js';
+import { ErrorGrouper } from './utils/error-grouper.js';
+import { RateLimitError, RateLimiterPool } from './utils/rate-limiter.js';
+import { PartialDeliveryError } from './providers/base-provider.js';
+import { Outbox } from './utils/outbox.js';
+import { DigestBuffer } from './utils/digest-buffer.js';
+import { sendBeacon } from './utils/beacon.js';
+import { Scope } from './utils/scope.js';
+import { BreadcrumbBuffer } from './utils/breadcrumb-buffer.js';
+import { createNotificationId } from './utils/notification-id.js';
+import { normalizeError } from './utils/error-normalizer.js';
+import {
+  createUrlFilter,
+  instrumentConsole,
+  instrumentFetch,
+  instrumentHttp,
+  instrumentNavigation
+} from './utils/breadcrumb-instrumentation.js';
 import { DiscordProvider } from './providers/discord-provider.js';
 import { SlackProvider } from './providers/slack-provider.js';
+import { TeamsProvider } from './providers/teams-provider.js';
+import { TelegramProvider } from './providers/telegram-provider.js';
+import { PagerDutyProvider } from './providers/pagerduty-provider.js';
+import { WebhookProvider } from './providers/webhook-provider.js';
+import { SmsProvider } from './providers/sms-provider.js';
+import { EmailProvider } from './providers/email-provider.js';
+import { ProviderRegistry } from './providers/provider-registry.js';
+
+/**
+ * Providers configured through top-level NotificationConfig keys
+ */
+const BUILT_IN_PROVIDER_KEYS = ['discord', 'slack', 'teams', 'telegram', 'pagerduty', 'webhook', 'sms', 'email'] as const;
+
+/**
+ * Provider option keys holding endpoint URLs, kept out of http breadcrumbs
+ */
+const ENDPOINT_OPTION_KEYS = ['webhookUrl', 'url', 'baseUrl', 'endpoint'];
+
+/**
+ * Marks sanitized notifications. Unlike a WeakSet it survives the copies made by
+ * hooks and duplicate summaries, and JSON payloads never include it.
+ */
+const SANITIZED = Symbol('sanitized');
+
+/**
+ * Dropped, buffered and skipped notifications count as delivered
+ */
+function isDelivered(report: DeliveryReport): boolean {
+  return report.deliveries.every(delivery => delivery.status === 'sent' || delivery.status === 'skipped');
+}
 
 export class ErrorLogger implements IErrorLogger {
+  private static registry: ProviderRegistry = ErrorLogger.createDefaultRegistry();
+
   private configManager: ConfigManager;
   private sanitizer: DataSanitizer;
+  private router: NotificationRouter;
+  private filter: NotificationFilter;
+  private droppedCounts: DroppedCounts = { ignored: 0, deniedUrl: 0, sampled: 0, eventProcessor: 0 };
+  private grouper: ErrorGrouper;
+  private digest: DigestBuffer;
+  private shutdownHookInstalled: boolean = false;
+  private inFlight: Set<Promise<DeliveryReport>> = new Set();
+  private closed: boolean = false;
+  private globalHandlers?: {
+    options: GlobalHandlerOptions;
+    uncaughtException: (error: Error) => void;
+    unhandledRejection: (reason: unknown) => void;
+  };
+  private handlingFatal: boolean = false;
+  private scopeStack: Scope[] = [new Scope()];
+  private breadcrumbs: BreadcrumbBuffer;
+  private breadcrumbInstrumentation: Array<() => void> = [];
+  private instrumentationGeneration: number = 0;
+  private pendingSends: Set<{ provider: NotificationProvider; notification: ErrorNotification }> = new Set();
+  private browserHandlers?: {
+    onError: (...args: any[]) => any;
+    previousOnError: unknown;
+    onUnhandledRejection: (event: any) => void;
+    onPageHide: () => void;
+    onVisibilityChange: () => void;
+  };
   private providers: NotificationProvider[] = [];
+  private channelKeys: Map<NotificationProvider, string> = new Map();
+  private channelHooks: Map<NotificationProvider, EventProcessor> = new Map();
+  private channelRetryManagers: Map<NotificationProvider, RetryManager> = new Map();
+  private channelStats: Map<string, ChannelStats> = new Map();
+  private rateLimiters?: RateLimiterPool;
+  private outbox?: Outbox;
+  private replaying?: Promise<number>;
 
   constructor(config: Partial<NotificationConfig> = {}) {
     // Merge environment variables with provided config
@@ -25,55 +123,384 @@ export class ErrorLogger implements IErrorLogger {
     const currentConfig = this.configManager.getConfig();
 
     this.sanitizer = new DataSanitizer(currentConfig.sanitization);
+    this.router = new NotificationRouter(currentConfig.routing);
+    this.filter = new NotificationFilter(currentConfig);
+    this.grouper = new ErrorGrouper(currentConfig.deduplication, (summary) => {
+      void this.deliver(summary);
+    });
+    this.digest = new DigestBuffer(currentConfig.digest, (digest) => {
+      void this.deliver(digest);
+    });
+    this.updateShutdownHook(currentConfig.digest?.enabled ?? false);
 
     // Initialize providers
     this.initializeProviders(currentConfig);
+    this.router.validateTargets(this.providers);
+
+    this.breadcrumbs = new BreadcrumbBuffer(currentConfig.breadcrumbs?.maxBreadcrumbs ?? 20);
+    this.initializeBreadcrumbs(currentConfig);
+
+    // Deliver anything left over from a previous run
+    this.initializeOutbox(currentConfig.outbox);
+    if (this.outbox) {
+      void this.replayOutbox();
+    }
+  }
+
+  /**
+   * Register a provider factory, configured via `providerOptions[name]`
+   */
+  static registerProvider<TOptions>(name: string, factory: ProviderFactory<TOptions>): void {
+    ErrorLogger.registry.register(name, factory);
+  }
+
+  static unregisterProvider(name: string): boolean {
+    return ErrorLogger.registry.unregister(name);
+  }
+
+  private static createDefaultRegistry(): ProviderRegistry {
+    const registry = new ProviderRegistry();
+    registry.register('discord', (options, context) =>
+      new DiscordProvider(options, context.retryManager, context.rateLimiters));
+    registry.register('slack', (options, context) =>
+      new SlackProvider(options, context.retryManager, context.rateLimiters));
+    registry.register('teams', (options, context) =>
+      new TeamsProvider(options, context.retryManager, context.rateLimiters));
+    registry.register('telegram', (options, context) =>
+      new TelegramProvider(options, context.retryManager, context.rateLimiters));
+    registry.register('pagerduty', (options, context) =>
+      new PagerDutyProvider(options, context.retryManager, context.rateLimiters));
+    registry.register('webhook', (options, context) =>
+      new WebhookProvider(options, context.retryManager));
+    registry.register('sms', (options, context) =>
+      new SmsProvider(options, context.retryManager, context.rateLimiters));
+    registry.register('email', (options, context) =>
+      new EmailProvider(options, context.retryManager));
+    return registry;
   }
 
   private initializeProviders(config: NotificationConfig): void {
-    this.providers = [];
+    const providers: NotificationProvider[] = [];
+
+    // Keep limiter state across re-initialization so queued sends are not lost
+    if (config.rateLimit?.enabled) {
+      if (!this.rateLimiters) {
+        this.rateLimiters = new RateLimiterPool(config.rateLimit.maxQueueSize);
+      }
+    } else {
+      this.rateLimiters = undefined;
+    }
+
+    const channelKeys = new Map<NotificationProvider, string>();
+    const channelHooks = new Map<NotificationProvider, EventProcessor>();
+    const channelRetryManagers = new Map<NotificationProvider, RetryManager>();
+    const addChannel = (
+      provider: NotificationProvider,
+      key: string,
+      retryManager?: RetryManager,
+      beforeSend?: unknown
+    ) => {
+      if (Array.from(channelKeys.values()).includes(key)) {
+        throw new Error(`Duplicate channel: ${key}`);
+      }
+      if (beforeSend !== undefined && typeof beforeSend !== 'function') {
+        throw new Error(`${key}: beforeSend must be a function`);
+      }
+      channelKeys.set(provider, key);
+      providers.push(provider);
+      if (beforeSend) {
+        channelHooks.set(provider, beforeSend as EventProcessor);
+      }
+      if (retryManager) {
+        channelRetryManagers.set(provider, retryManager);
+      }
+
+      // Each channel has its own RetryManager, so retries are attributed per channel
+      retryManager?.addRetryListener(() => {
+        this.getChannelStatsEntry(key, provider).retries++;
+      });
+
+      // The channel is reachable again - flush what piled up while it was down
+      retryManager?.addCircuitCloseListener(() => {
+        if (this.outbox) {
+          void this.replayOutbox();
+        }
+      });
+    };
+
+    for (const name of ErrorLogger.registry.getNames()) {
+      const options = this.getProviderOptions(config, name);
+      if (options === undefined) {
+        continue;
+      }
+
+      const channels = Array.isArray(options) ? options : [options];
+      channels.forEach((channelOptions, index) => {
+        const context: ProviderFactoryContext = {
+          retryManager: new RetryManager(config.retry),
+          rateLimiters: this.rateLimiters
+        };
+        const provider = ErrorLogger.registry.create(name, channelOptions, context);
+        addChannel(
+          provider,
+          `${name}:${provider.getChannel?.() ?? index}`,
+          context.retryManager,
+          (channelOptions as { beforeSend?: unknown } | undefined)?.beforeSend
+        );
+      });
+    }
+
+    (config.providers ?? []).forEach((provider, index) => {
+      if (!provider.validateConfig()) {
+        throw new Error(`Invalid ${provider.getName()} configuration`);
+      }
+      addChannel(provider, `${provider.getName().toLowerCase()}:${provider.getChannel?.() ?? index}`);
+    });
+
+    if (providers.length === 0) {
+      throw new Error('At least one provider must be configured');
+    }
+
+    this.providers = providers;
+    this.channelKeys = channelKeys;
+    this.channelHooks = channelHooks;
+    this.channelRetryManagers = channelRetryManagers;
+  }
+
+  /**
+   * Delivery counters per provider channel
+   */
+  getChannelStats(): ChannelStats[] {
+    return this.providers.map(provider => ({
+      ...this.getChannelStatsEntry(this.channelKeys.get(provider)!, provider)
+    }));
+  }
+
+  /**
+   * Notifications discarded by ignore rules, sampling or event processors
+   */
+  getDroppedCounts(): DroppedCounts {
+    return { ...this.droppedCounts };
+  }
+
+  private getChannelStatsEntry(key: string, provider: NotificationProvider): ChannelStats {
+    let stats = this.channelStats.get(key);
+    if (!stats) {
+      stats = { channel: key, provider: provider.getName(), sent: 0, failed: 0, retries: 0, skipped: 0 };
+      this.channelStats.set(key, stats);
+    }
+    return stats;
+  }
+
+  private initializeOutbox(config?: Partial<OutboxConfig>): void {
+    if (!config?.enabled) {
+      this.outbox = undefined;
+      return;
+    }
+
+    if (!Outbox.isSupported()) {
+      console.warn('[ErrorLogger] The outbox requires Node.js and has been disabled');
+      this.outbox = undefined;
+      return;
+    }
 
-    const retryManager = new RetryManager(config.retry);
+    if (this.outbox) {
+      this.outbox.updateConfig(config);
+    } else {
+      this.outbox = new Outbox(config);
+    }
+  }
+
+  /**
+   * Retry delivery of notifications persisted in the outbox
+   * @returns number of notifications delivered
+   */
+  async replayOutbox(): Promise<number> {
+    if (!this.outbox) {
+      return 0;
+    }
 
-    if (config.discord) {
-      this.providers.push(new DiscordProvider(config.discord, retryManager));
+    // Coalesce concurrent triggers (startup, several circuits closing)
+    if (!this.replaying) {
+      this.replaying = this.outbox.replay(entry => this.redeliver(entry))
+        .catch((error) => {
+          console.error('[ErrorLogger] Failed to replay outbox:', error);
+          return 0;
+        })
+        .finally(() => {
+          this.replaying = undefined;
+        });
     }
+    return this.replaying;
+  }
 
-    if (config.slack) {
-      this.providers.push(new SlackProvider(config.slack, retryManager));
+  private async redeliver(entry: OutboxEntry): Promise<boolean> {
+    // Channels removed from the config stay queued until they expire
+    const provider = this.providers.find(candidate => this.channelKeys.get(candidate) === entry.channel);
+    if (!provider) {
+      return false;
+    }
+
+    try {
+      await provider.send(entry.notification);
+      this.getChannelStatsEntry(entry.channel, provider).sent++;
+      return true;
+    } catch (error) {
+      // Requeue for the recipients or parts still missing, keeping the entry's age
+      if (error instanceof PartialDeliveryError && this.outbox) {
+        await this.outbox.enqueue(
+          entry.channel,
+          { ...entry.notification, ...error.pending },
+          entry.enqueuedAt
+        );
+        return true;
+      }
+      return false;
     }
   }
 
+  /**
+   * Install the automatic breadcrumb instrumentation selected in the config,
+   * replacing whatever was installed before
+   */
+  private initializeBreadcrumbs(config: NotificationConfig): void {
+    const breadcrumbConfig = config.breadcrumbs;
+    this.breadcrumbs.resize(breadcrumbConfig?.enabled ? breadcrumbConfig.maxBreadcrumbs ?? 20 : 0);
+
+    this.breadcrumbInstrumentation.forEach(uninstall => uninstall());
+    this.breadcrumbInstrumentation = [];
+    const generation = ++this.instrumentationGeneration;
+
+    if (!breadcrumbConfig?.enabled) {
+      return;
+    }
+
+    const record = (breadcrumb: Omit<Breadcrumb, 'timestamp'>) => this.addBreadcrumb(breadcrumb);
+    const shouldRecord = createUrlFilter([
+      ...this.getConfiguredEndpoints(config),
+      ...(breadcrumbConfig.ignoreUrls ?? [])
+    ]);
+
+    if (breadcrumbConfig.console) {
+      const providerNames = this.providers.map(provider => provider.getName());
+      this.breadcrumbInstrumentation.push(instrumentConsole(record, providerNames));
+    }
+    if (breadcrumbConfig.fetch) {
+      this.breadcrumbInstrumentation.push(instrumentFetch(record, shouldRecord));
+    }
+    if (breadcrumbConfig.navigation) {
+      this.breadcrumbInstrumentation.push(instrumentNavigation(record));
+    }
+    if (breadcrumbConfig.http) {
+      instrumentHttp(record, shouldRecord)
+        .then((uninstall) => {
+          // Reconfigured while the modules were loading
+          if (generation === this.instrumentationGeneration) {
+            this.breadcrumbInstrumentation.push(uninstall);
+          } else {
+            uninstall();
+          }
+        })
+        .catch(() => {
+          console.warn('[ErrorLogger] http breadcrumbs require Node.js and have been disabled');
+        });
+    }
+  }
+
+  /**
+   * Endpoint URLs of the configured built-in providers (custom hosts, generic webhooks)
+   */
+  private getConfiguredEndpoints(config: NotificationConfig): string[] {
+    const endpoints: string[] = [];
+    for (const name of BUILT_IN_PROVIDER_KEYS) {
+      const options = config[name];
+      const channels: any[] = Array.isArray(options) ? options : options ? [options] : [];
+      for (const channel of channels) {
+        for (const key of ENDPOINT_OPTION_KEYS) {
+          if (typeof channel?.[key] === 'string' && channel[key]) {
+            endpoints.push(channel[key]);
+          }
+        }
+      }
+    }
+    return endpoints;
+  }
+
+  private getProviderOptions(config: NotificationConfig, name: string): unknown {
+    if ((BUILT_IN_PROVIDER_KEYS as readonly string[]).includes(name)) {
+      return config[name as typeof BUILT_IN_PROVIDER_KEYS[number]];
+    }
+    return config.providerOptions?.[name];
+  }
+
   async captureException(
-    error: Error | string,
-    metadata?: Record<string, any>
-  ): Promise<void> {
-    const errorObj = typeof error === 'string' ? new Error(error) : error;
+    error: unknown,
+    metadata?: Record<string, any>,
+    level: ErrorSeverity = 'error'
+  ): Promise<DeliveryReport> {
+    return this.captureError(error, level, metadata);
+  }
+
+  private async captureError(
+    error: unknown,
+    severity: ErrorSeverity,
+    metadata?: Record<string, any>,
+    source?: SourceLocation
+  ): Promise<DeliveryReport> {
+    if (this.closed) {
+      return this.createReport(createNotificationId(), 'closed');
+    }
+
+    // A captured string gets no stack, which would only point into the logger
+    const { error: details, causes, errors } = normalizeError(error);
 
     const notification: ErrorNotification = {
-      message: errorObj.message,
-      severity: 'error',
+      id: createNotificationId(),
+      message: details.message,
+      severity,
       timestamp: new Date().toISOString(),
-      stack: errorObj.stack,
+      stack: details.stack,
+      frames: details.frames,
+      errorType: details.type,
+      errorProperties: details.properties,
       metadata: metadata,
-      environment: this.configManager.getConfig().environment
+      environment: this.configManager.getConfig().environment,
+      source
     };
 
+    if (causes.length > 0) {
+      notification.causes = causes;
+    }
+    if (errors.length > 0) {
+      notification.errors = errors;
+    }
+
+    const breadcrumbs = this.breadcrumbs.getAll();
+    if (breadcrumbs.length > 0) {
+      notification.breadcrumbs = breadcrumbs;
+    }
+
     // Add context if available (browser environment)
     if (typeof globalThis !== 'undefined' && (globalThis as any).window) {
       notification.url = (globalThis as any).window.location?.href;
       notification.userAgent = (globalThis as any).navigator?.userAgent;
     }
 
-    await this.sendNotification(notification);
+    this.getCurrentScope().applyTo(notification);
+    return this.track(this.sendNotification(notification));
   }
 
   async captureMessage(
     message: string,
     level: ErrorSeverity = 'info',
     metadata?: Record<string, any>
-  ): Promise<void> {
+  ): Promise<DeliveryReport> {
+    if (this.closed) {
+      return this.createReport(createNotificationId(), 'closed');
+    }
+
     const notification: ErrorNotification = {
+      id: createNotificationId(),
       message,
       severity: level,
       timestamp: new Date().toISOString(),
@@ -87,49 +514,585 @@ export class ErrorLogger implements IErrorLogger {
       notification.userAgent = (globalThis as any).navigator?.userAgent;
     }
 
-    await this.sendNotification(notification);
+    this.getCurrentScope().applyTo(notification);
+    return this.track(this.sendNotification(notification));
+  }
+
+  /**
+   * Record an event in the breadcrumb trail attached to later exceptions.
+   * Breadcrumbs are sanitized when recorded, so secrets never sit in the buffer.
+   */
+  addBreadcrumb(breadcrumb: Omit<Breadcrumb, 'timestamp'> & { timestamp?: string }): void {
+    if (!this.configManager.getConfig().breadcrumbs?.enabled) {
+      return;
+    }
+
+    this.breadcrumbs.add(this.sanitizer.sanitize({
+      ...breadcrumb,
+      timestamp: breadcrumb.timestamp ?? new Date().toISOString()
+    }, 'breadcrumbs') as Breadcrumb);
+  }
+
+  clearBreadcrumbs(): void {
+    this.breadcrumbs.clear();
+  }
+
+  /**
+   * Attach a user to every following notification (null to clear)
+   */
+  setUser(user: ScopeUser | null): void {
+    this.getCurrentScope().setUser(user);
+  }
+
+  setTag(key: string, value: string): void {
+    this.getCurrentScope().setTag(key, value);
+  }
+
+  setTags(tags: Record<string, string>): void {
+    this.getCurrentScope().setTags(tags);
+  }
+
+  /**
+   * Attach a named structured context to every following notification (null to remove)
+   */
+  setContext(name: string, context: Record<string, unknown> | null): void {
+    this.getCurrentScope().setContext(name, context);
+  }
+
+  /**
+   * Run a callback with a temporary copy of the current scope.
+   * Captures must be started before the callback returns; they may be awaited afterwards.
+   */
+  withScope<T>(callback: (scope: Scope) => T): T {
+    const scope = this.getCurrentScope().clone();
+    this.scopeStack.push(scope);
+    try {
+      return callback(scope);
+    } finally {
+      this.scopeStack.pop();
+    }
+  }
+
+  private getCurrentScope(): Scope {
+    return this.scopeStack[this.scopeStack.length - 1];
   }
 
   configure(config: Partial<NotificationConfig>): void {
     this.configManager.updateConfig(config);
     const currentConfig = this.configManager.getConfig();
 
-    // Reinitialize sanitizer and providers with new config
+    // Reinitialize sanitizer, router and providers with new config
     this.sanitizer = new DataSanitizer(currentConfig.sanitization);
+    this.router = new NotificationRouter(currentConfig.routing);
+    this.filter = new NotificationFilter(currentConfig);
+    this.grouper.updateConfig(currentConfig.deduplication);
+    this.digest.updateConfig(currentConfig.digest);
+    this.updateShutdownHook(currentConfig.digest?.enabled ?? false);
     this.initializeProviders(currentConfig);
+    this.router.validateTargets(this.providers);
+    this.initializeOutbox(currentConfig.outbox);
+    this.initializeBreadcrumbs(currentConfig);
   }
 
   setEnvironment(environment: string): void {
     this.configManager.setEnvironment(environment);
   }
 
-  private async sendNotification(notification: ErrorNotification): Promise<void> {
+  /**
+   * Resolve incidents opened for a fingerprint on every incident provider
+   */
+  async resolve(key: string): Promise<void> {
+    const incidentProviders = this.providers.filter(provider => provider.resolve);
+
+    await Promise.allSettled(incidentProviders.map(async (provider) => {
+      try {
+        await provider.resolve!(key);
+      } catch (error) {
+        console.error(`[${provider.getName()}] Failed to resolve incident:`, error);
+      }
+    }));
+  }
+
+  /**
+   * Number of repeats of a fingerprint suppressed in the current window
+   */
+  getSuppressedCount(fingerprint: string): number {
+    return this.grouper.getSuppressedCount(fingerprint);
+  }
+
+  /**
+   * Report uncaught exceptions and unhandled rejections as fatal notifications (Node.js)
+   */
+  installGlobalHandlers(options: Partial<GlobalHandlerOptions> = {}): void {
+    if (typeof process === 'undefined' || typeof process.on !== 'function') {
+      console.warn('[ErrorLogger] Global handlers require Node.js');
+      return;
+    }
+
+    this.uninstallGlobalHandlers();
+
+    this.globalHandlers = {
+      options: {
+        exitOnFatal: options.exitOnFatal ?? true,
+        exitCode: options.exitCode ?? 1,
+        flushTimeoutMs: options.flushTimeoutMs ?? 2000
+      },
+      uncaughtException: (error: Error) => {
+        void this.handleFatal(error, 'uncaughtException');
+      },
+      unhandledRejection: (reason: unknown) => {
+        void this.handleFatal(reason, 'unhandledRejection');
+      }
+    };
+
+    process.on('uncaughtException', this.globalHandlers.uncaughtException);
+    process.on('unhandledRejection', this.globalHandlers.unhandledRejection);
+  }
+
+  uninstallGlobalHandlers(): void {
+    if (!this.globalHandlers) {
+      return;
+    }
+
+    process.off('uncaughtException', this.globalHandlers.uncaughtException);
+    process.off('unhandledRejection', this.globalHandlers.unhandledRejection);
+    this.globalHandlers = undefined;
+  }
+
+  private async handleFatal(error: unknown, mechanism: string): Promise<void> {
+    const options = this.globalHandlers?.options;
+    if (!options) {
+      return;
+    }
+
+    // A second crash while reporting the first must not start another report
+    if (this.handlingFatal) {
+      console.error(`[ErrorLogger] ${mechanism} while handling a fatal error:`, error);
+      return;
+    }
+    this.handlingFatal = true;
+
+    try {
+      void this.captureError(error, 'fatal', { mechanism });
+
+      // The process won't reach beforeExit, so send buffered notifications now
+      if (!await this.flush(options.flushTimeoutMs)) {
+        console.warn(`[ErrorLogger] Not every notification was delivered within ${options.flushTimeoutMs}ms`);
+      }
+    } finally {
+      this.handlingFatal = false;
+    }
+
+    if (options.exitOnFatal) {
+      process.exit(options.exitCode);
+    }
+  }
+
+  /**
+   * Capture `window.onerror` and `unhandledrejection` events, and flush pending
+   * notifications with keepalive requests when the page is hidden (browser)
+   */
+  installBrowserHandlers(): void {
+    const win = (globalThis as any).window;
+    if (!win || typeof win.addEventListener !== 'function') {
+      console.warn('[ErrorLogger] Browser handlers require a window');
+      return;
+    }
+
+    this.uninstallBrowserHandlers();
+
+    const previousOnError = win.onerror;
+    const onError = (message: unknown, file?: string, line?: number, column?: number, error?: unknown) => {
+      // Older browsers don't pass the thrown value
+      const source = file ? { file, line, column } : undefined;
+      void this.captureError(error ?? String(message), 'error', { mechanism: 'onerror' }, source);
+
+      // Keep the page's own handler (and its return value) working
+      return typeof previousOnError === 'function'
+        ? previousOnError.call(win, message, file, line, column, error)
+        : false;
+    };
+
+    this.browserHandlers = {
+      onError,
+      previousOnError,
+      onUnhandledRejection: (event: any) => {
+        void this.captureError(event?.reason, 'error', { mechanism: 'unhandledrejection' });
+      },
+      onPageHide: () => this.flushWithBeacon(),
+      onVisibilityChange: () => {
+        if (win.document?.visibilityState === 'hidden') {
+          this.flushWithBeacon();
+        }
+      }
+    };
+
+    win.onerror = onError;
+    win.addEventListener('unhandledrejection', this.browserHandlers.onUnhandledRejection);
+    win.addEventListener('pagehide', this.browserHandlers.onPageHide);
+    win.document?.addEventListener('visibilitychange', this.browserHandlers.onVisibilityChange);
+  }
+
+  uninstallBrowserHandlers(): void {
+    if (!this.browserHandlers) {
+      return;
+    }
+
+    const win = (globalThis as any).window;
+    const handlers = this.browserHandlers;
+    this.browserHandlers = undefined;
+
+    // Only restore onerror if nobody replaced our handler in the meantime
+    if (win.onerror === handlers.onError) {
+      win.onerror = handlers.previousOnError ?? null;
+    }
+    win.removeEventListener('unhandledrejection', handlers.onUnhandledRejection);
+    win.removeEventListener('pagehide', handlers.onPageHide);
+    win.document?.removeEventListener('visibilitychange', handlers.onVisibilityChange);
+  }
+
+  /**
+   * Hand everything not yet delivered to the browser before the page goes away:
+   * unfinished sends, pending duplicate summaries and the pending digest.
+   * An unfinished send may still complete on its own, so it can arrive twice.
+   * Channel `beforeSend` hooks are skipped for buffered notifications: they may be
+   * async, and nothing async completes once the page is gone.
+   */
+  private flushWithBeacon(): void {
+    const pending = Array.from(this.pendingSends);
+    this.pendingSends.clear();
+
+    const buffered = [...this.grouper.drain(), this.digest.drain()];
+    for (const notification of buffered) {
+      if (!notification) {
+        continue;
+      }
+      const sanitizedNotification = this.sanitize(notification);
+      for (const provider of this.router.route(sanitizedNotification, this.providers)) {
+        if (!provider.accepts || provider.accepts(sanitizedNotification)) {
+          pending.push({ provider, notification: sanitizedNotification });
+        }
+      }
+    }
+
+    for (const { provider, notification } of pending) {
+      const request = provider.createBeaconRequest?.(notification);
+      if (request && !sendBeacon(request)) {
+        console.warn(`[${provider.getName()}] Could not hand notification to the browser on page hide`);
+      }
+    }
+  }
+
+  /**
+   * Send buffered duplicate summaries and the pending digest, then wait for
+   * every capture and send in flight (including rate-limited and retried ones)
+   * @returns true if everything settled within the timeout and no provider failed
+   */
+  async flush(timeoutMs: number = 2000): Promise<boolean> {
+    for (const summary of this.grouper.drain()) {
+      void this.deliver(summary);
+    }
+    void this.flushDigest();
+
+    return this.waitForInFlight(timeoutMs);
+  }
+
+  /**
+   * Flush, then stop accepting notifications and release timers, listeners and
+   * instrumentation. Captures after close() are ignored.
+   * @returns the result of the final flush
+   */
+  async close(timeoutMs: number = 2000): Promise<boolean> {
+    if (this.closed) {
+      return this.waitForInFlight(timeoutMs);
+    }
+    this.closed = true;
+
+    const delivered = await this.flush(timeoutMs);
+
+    this.uninstallGlobalHandlers();
+    this.uninstallBrowserHandlers();
+    this.updateShutdownHook(false);
+    this.breadcrumbInstrumentation.forEach(uninstall => uninstall());
+    this.breadcrumbInstrumentation = [];
+    this.instrumentationGeneration++;
+    this.grouper.clear();
+    this.digest.clear();
+
+    return delivered;
+  }
+
+  /**
+   * Wait for in-flight captures and provider sends
+   * @returns false if the timeout elapsed first or a provider failed
+   */
+  private async waitForInFlight(timeoutMs: number): Promise<boolean> {
+    if (this.inFlight.size === 0) {
+      return true;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    const settled = Promise.allSettled(Array.from(this.inFlight))
+      .then(results => results.every(result => result.status === 'fulfilled' && isDelivered(result.value)));
+
+    try {
+      return await Promise.race([settled, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Send the pending digest now instead of waiting for the interval
+   */
+  async flushDigest(): Promise<void> {
+    const digest = this.digest.drain();
+    if (digest) {
+      await this.deliver(digest);
+    }
+  }
+
+  private onBeforeExit = (): void => {
+    void this.flushDigest();
+  };
+
+  /**
+   * Flush pending digests when a Node.js process is about to exit
+   */
+  private updateShutdownHook(enabled: boolean): void {
+    if (typeof process === 'undefined' || typeof process.on !== 'function') {
+      return;
+    }
+
+    if (enabled && !this.shutdownHookInstalled) {
+      process.on('beforeExit', this.onBeforeExit);
+      this.shutdownHookInstalled = true;
+    } else if (!enabled && this.shutdownHookInstalled) {
+      process.off('beforeExit', this.onBeforeExit);
+      this.shutdownHookInstalled = false;
+    }
+  }
+
+  private async sendNotification(notification: ErrorNotification): Promise<DeliveryReport> {
     const config = this.configManager.getConfig();
+    const id = notification.id ?? createNotificationId();
 
     // Check if logging is enabled
     if (!config.enabled) {
-      return;
+      return this.createReport(id, 'disabled');
+    }
+
+    // Cheap rules first, before any sanitizing work is spent
+    const reason = this.filter.check(notification);
+    if (reason) {
+      this.droppedCounts[reason]++;
+      return this.createReport(id, reason);
+    }
+
+    // Digests, grouping, routing and hooks all see sanitized data, so a no-op
+    // hook can't change where a notification goes or its fingerprint
+    notification = this.sanitize(notification);
+
+    // Hooks run before anything is buffered or grouped, so dropped
+    // notifications never count as repeats
+    const processors = [...(config.eventProcessors ?? []), ...(config.beforeSend ? [config.beforeSend] : [])];
+    if (processors.length > 0) {
+      const processed = await this.runEventProcessors(notification, processors);
+      if (!processed) {
+        this.droppedCounts.eventProcessor++;
+        return this.createReport(id, 'eventProcessor');
+      }
+      // The id is what users quote, so hooks can't change it
+      notification = { ...processed, id, [SANITIZED]: true } as ErrorNotification;
+    }
+
+    // Low-severity traffic waits for the next digest
+    if (this.digest.add(notification)) {
+      return this.createReport(id, 'digest');
+    }
+
+    // Group repeats of the same error and suppress them within the window
+    notification.fingerprint = this.grouper.fingerprint(notification);
+    if (!this.grouper.track(notification)) {
+      return { ...this.createReport(id, 'duplicate'), fingerprint: notification.fingerprint };
+    }
+
+    return this.deliver(notification);
+  }
+
+  /**
+   * Sanitize a notification once; a second pass would hash already hashed values
+   * and break correlation. What hooks add to a sanitized notification is kept as is.
+   */
+  private sanitize(notification: ErrorNotification): ErrorNotification {
+    if ((notification as any)[SANITIZED]) {
+      return notification;
+    }
+
+    // Breadcrumbs were sanitized when recorded; a second pass would hash their hashes
+    const { breadcrumbs, ...rest } = notification;
+    const sanitized = this.sanitizer.sanitize(rest) as ErrorNotification;
+    if (breadcrumbs) {
+      sanitized.breadcrumbs = breadcrumbs;
+    }
+    (sanitized as any)[SANITIZED] = true;
+    return sanitized;
+  }
+
+  /**
+   * Report for a notification that never reached the providers
+   */
+  private createReport(id: string, reason: DeliveryReport['reason']): DeliveryReport {
+    return {
+      id,
+      reason,
+      deliveries: this.providers.map(provider => this.createDelivery(provider, 'skipped'))
+    };
+  }
+
+  private createDelivery(
+    provider: NotificationProvider,
+    status: DeliveryStatus,
+    attempts: number = 0
+  ): ProviderDelivery {
+    return {
+      channel: this.channelKeys.get(provider)!,
+      provider: provider.getName(),
+      status,
+      attempts
+    };
+  }
+
+  /**
+   * Run processors in order; null from any of them drops the notification.
+   * A processor that throws is skipped, so a broken hook can't swallow error reports.
+   */
+  private async runEventProcessors(
+    notification: ErrorNotification,
+    processors: EventProcessor[]
+  ): Promise<ErrorNotification | null> {
+    let current = notification;
+    for (const processor of processors) {
+      try {
+        const result = await processor({ ...current });
+        if (result === null) {
+          return null;
+        }
+        if (result) {
+          current = result;
+        }
+      } catch (error) {
+        console.error('[ErrorLogger] Event processor failed:', error);
+      }
+    }
+    return current;
+  }
+
+  private deliver(notification: ErrorNotification): Promise<DeliveryReport> {
+    return this.track(this.deliverToProviders(notification));
+  }
+
+  /**
+   * Tracked so flush(), close() and fatal handlers can wait for fire-and-forget sends
+   */
+  private track(work: Promise<DeliveryReport>): Promise<DeliveryReport> {
+    const done = () => {
+      this.inFlight.delete(work);
+    };
+
+    this.inFlight.add(work);
+    work.then(done, done);
+    return work;
+  }
+
+  private async deliverToProviders(notification: ErrorNotification): Promise<DeliveryReport> {
+    // Duplicate summaries and digests are built without an id and get theirs on delivery
+    if (!notification.id) {
+      notification = { ...notification, id: createNotificationId() };
     }
 
     // Sanitize notification data
-    const sanitizedNotification = this.sanitizer.sanitize(notification) as ErrorNotification;
+    const sanitizedNotification = this.sanitize(notification);
+
+    // Send to the providers selected by routing rules
+    const targets = this.router.route(sanitizedNotification, this.providers);
+    const deliveries = this.providers.map(async (provider): Promise<ProviderDelivery> => {
+      if (!targets.includes(provider)) {
+        return this.createDelivery(provider, 'skipped');
+      }
+
+      const stats = this.getChannelStatsEntry(this.channelKeys.get(provider)!, provider);
+
+      if (provider.accepts && !provider.accepts(sanitizedNotification)) {
+        stats.skipped++;
+        return this.createDelivery(provider, 'skipped');
+      }
+
+      // The channel's own hook may rewrite or drop the notification
+      const beforeSend = this.channelHooks.get(provider);
+      const channelNotification = beforeSend
+        ? await this.runEventProcessors(sanitizedNotification, [beforeSend])
+        : sanitizedNotification;
+      if (!channelNotification) {
+        stats.skipped++;
+        return this.createDelivery(provider, 'skipped');
+      }
+
+      // Tracked so the page-hide flush can hand unfinished sends to the browser
+      const pendingSend = { provider, notification: channelNotification };
+      this.pendingSends.add(pendingSend);
+
+      // Providers without a RetryManager (custom ones) make a single attempt
+      const attempts = () => this.channelRetryManagers.get(provider)?.getAttempts(channelNotification) ?? 1;
 
-    // Send to all configured providers
-    const sendPromises = this.providers.map(async (provider) => {
       try {
-        await provider.send(sanitizedNotification);
+        await provider.send(channelNotification);
+        stats.sent++;
+        return this.createDelivery(provider, 'sent', attempts());
       } catch (error) {
+        stats.failed++;
         console.error(`[${provider.getName()}] Failed to send notification:`, error);
+        await this.persist(
+          stats.channel,
+          error instanceof PartialDeliveryError
+            ? { ...channelNotification, ...error.pending }
+            : channelNotification
+        );
         // Don't throw - allow other providers to try
+        return {
+          ...this.createDelivery(provider, error instanceof RateLimitError ? 'rate-limited' : 'failed', attempts()),
+          lastError: error instanceof Error ? error.message : String(error)
+        };
+      } finally {
+        this.pendingSends.delete(pendingSend);
       }
     });
 
-    await Promise.allSettled(sendPromises);
+    return {
+      id: notification.id!,
+      fingerprint: notification.fingerprint,
+      deliveries: await Promise.all(deliveries)
+    };
+  }
+
+  private async persist(channel: string, notification: ErrorNotification): Promise<void> {
+    if (!this.outbox) {
+      return;
+    }
+
+    try {
+      await this.outbox.enqueue(channel, notification);
+    } catch (error) {
+      console.error('[ErrorLogger] Failed to write outbox:', error);
+    }
   }
 
   /**
    * Load configuration from environment variables
-   * Supports: DISCORD_WEBHOOK_URL, SLACK_WEBHOOK_URL, ERROR_LOGGER_ENABLED
+   * Supports: DISCORD_WEBHOOK_URL, SLACK_WEBHOOK_URL, TEAMS_WEBHOOK_URL, ERROR_LOGGER_ENABLED
    */
   private loadFromEnvironment(): Partial<NotificationConfig> {
     const config: Partial<NotificationConfig> = {};
@@ -154,6 +1117,13 @@ export class ErrorLogger implements IErrorLogger {
         };
       }
 
+      // Teams configuration
+      if (process.env.TEAMS_WEBHOOK_URL) {
+        config.teams = {
+          webhookUrl: process.env.TEAMS_WEBHOOK_URL
+        };
+      }
+
       // Global settings
       if (process.env.ERROR_LOGGER_ENABLED !== undefined) {
         config.enabled = process.env.ERROR_LOGGER_ENABLED === 'true';
@@ -184,6 +1154,12 @@ export class ErrorLogger implements IErrorLogger {
         };
       }
 
+      if (env.VITE_TEAMS_WEBHOOK_URL && !config.teams) {
+        config.teams = {
+          webhookUrl: env.VITE_TEAMS_WEBHOOK_URL
+        };
+      }
+
       if (env.VITE_ERROR_LOGGER_ENABLED !== undefined && config.enabled === undefined) {
         config.enabled = env.VITE_ERROR_LOGGER_ENABLED === 'true';
       }
@@ -203,14 +1179,40 @@ export class ErrorLogger implements IErrorLogger {
     return {
       discord: userConfig.discord || envConfig.discord,
       slack: userConfig.slack || envConfig.slack,
+      teams: userConfig.teams || envConfig.teams,
+      telegram: userConfig.telegram,
+      pagerduty: userConfig.pagerduty,
+      webhook: userConfig.webhook,
+      sms: userConfig.sms,
+      email: userConfig.email,
       enabled: userConfig.enabled !== undefined ? userConfig.enabled : envConfig.enabled,
       environment: userConfig.environment || envConfig.environment,
       retry: userConfig.retry,
-      sanitization: userConfig.sanitization
+      sanitization: userConfig.sanitization,
+      providers: userConfig.providers,
+      providerOptions: userConfig.providerOptions,
+      routing: userConfig.routing,
+      deduplication: userConfig.deduplication,
+      rateLimit: userConfig.rateLimit,
+      breadcrumbs: userConfig.breadcrumbs,
+      digest: userConfig.digest,
+      outbox: userConfig.outbox,
+      eventProcessors: userConfig.eventProcessors,
+      beforeSend: userConfig.beforeSend,
+      sampleRates: userConfig.sampleRates,
+      sampler: userConfig.sampler,
+      ignoreErrors: userConfig.ignoreErrors,
+      denyUrls: userConfig.denyUrls,
+      allowUrls: userConfig.allowUrls
     };
   }
 }
 
+export { BaseProvider, PartialDeliveryError } from './providers/base-provider.js';
+export { RetryManager } from './utils/retry-manager.js';
+export { Scope } from './utils/scope.js';
+export { requestHandler, errorLoggerMiddleware } from './integrations/express.js';
+
 // Export types
 export type {
   NotificationConfig,
@@ -220,6 +1222,47 @@ export type {
   NotificationProvider,
   DiscordConfig,
   SlackConfig,
+  TeamsConfig,
+  TelegramConfig,
+  PagerDutyConfig,
+  PagerDutySeverity,
+  WebhookConfig,
+  SmsConfig,
+  EmailConfig,
   RetryPolicy,
-  SanitizationConfig
+  SanitizationConfig,
+  MaskingStrategy,
+  PartialMask,
+  DefaultPatternName,
+  RoutingConfig,
+  RoutingRule,
+  RoutingMatch,
+  DeduplicationConfig,
+  OccurrenceSummary,
+  RateLimitConfig,
+  RateLimitRule,
+  ProviderFactory,
+  ProviderFactoryContext,
+  ChannelStats,
+  GlobalHandlerOptions,
+  ExpressIntegrationOptions,
+  DigestConfig,
+  DigestEntry,
+  DigestSummary,
+  OutboxConfig,
+  OutboxEntry,
+  SourceLocation,
+  BeaconRequest,
+  ScopeUser,
+  Breadcrumb,
+  BreadcrumbConfig,
+  StackFrame,
+  ErrorDetails,
+  EventProcessor,
+  Sampler,
+  DropReason,
+  DroppedCounts,
+  DeliveryStatus,
+  ProviderDelivery,
+  DeliveryReport
 } from './types/index.js';
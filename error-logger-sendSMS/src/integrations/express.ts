@@ -0,0 +1,128 @@
+import type { ErrorSeverity, ExpressIntegrationOptions, IErrorLogger } from '../types/index.js';
+
+/**
+ * Structural subsets of Express types, so express stays an optional peer
+ */
+interface ExpressRequest {
+  method?: string;
+  url?: string;
+  originalUrl?: string;
+  path?: string;
+  baseUrl?: string;
+  route?: { path?: unknown };
+  query?: unknown;
+  headers?: Record<string, string | string[] | undefined>;
+  ip?: string;
+  socket?: { remoteAddress?: string };
+}
+
+interface ExpressResponse {
+  statusCode?: number;
+  setHeader?(name: string, value: string): unknown;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+interface RequestContext {
+  requestId: string;
+  startTime: number;
+}
+
+/**
+ * Credentials redacted regardless of the logger's sanitization config, which
+ * would only partially redact them with the default patterns
+ */
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie'];
+
+const requestContexts = new WeakMap<object, RequestContext>();
+
+/**
+ * Assign a request id and start time; mount before routes.
+ * An incoming request id header is kept, otherwise one is generated and echoed back.
+ * Only the request is tagged here, so no logger is needed.
+ */
+export function requestHandler(options: ExpressIntegrationOptions = {}) {
+  const header = (options.requestIdHeader ?? 'x-request-id').toLowerCase();
+
+  return (req: ExpressRequest, res: ExpressResponse, next: NextFunction): void => {
+    const requestId = firstValue(req.headers?.[header]) || generateRequestId();
+    requestContexts.set(req, { requestId, startTime: Date.now() });
+    res.setHeader?.(header, requestId);
+    next();
+  };
+}
+
+/**
+ * Capture errors passed to `next(err)` with request context; mount after routes.
+ * 4xx errors are reported as warnings, everything else as errors. The error is
+ * passed on so the application's own error handlers still respond.
+ * Request data is sanitized by the logger, with its own strategies and key paths
+ * (e.g. `metadata.request.headers.x-user-email`).
+ */
+export function errorLoggerMiddleware(logger: IErrorLogger, options: ExpressIntegrationOptions = {}) {
+  const header = (options.requestIdHeader ?? 'x-request-id').toLowerCase();
+
+  return (err: unknown, req: ExpressRequest, res: ExpressResponse, next: NextFunction): void => {
+    const statusCode = getStatusCode(err, res);
+    const severity: ErrorSeverity = statusCode >= 500 ? 'error' : 'warning';
+    const context = requestContexts.get(req);
+
+    const request = {
+      method: req.method,
+      route: getRoutePattern(req),
+      // req.path is relative to the router the middleware is mounted on
+      path: (req.originalUrl ?? req.url)?.split('?')[0],
+      query: req.query,
+      headers: redactCredentials(req.headers ?? {}),
+      statusCode,
+      requestId: context?.requestId ?? firstValue(req.headers?.[header]),
+      clientIp: req.ip ?? req.socket?.remoteAddress,
+      durationMs: context ? Date.now() - context.startTime : undefined
+    };
+
+    // Don't hold up the response while providers are called
+    logger.captureException(err, { request }, severity).catch((captureError) => {
+      console.error('[ErrorLogger] Failed to capture Express error:', captureError);
+    });
+
+    next(err);
+  };
+}
+
+function getStatusCode(err: unknown, res: ExpressResponse): number {
+  const candidate = (err as any)?.status ?? (err as any)?.statusCode;
+  if (Number.isInteger(candidate) && candidate >= 400 && candidate <= 599) {
+    return candidate;
+  }
+  if (res.statusCode !== undefined && res.statusCode >= 400) {
+    return res.statusCode;
+  }
+  return 500;
+}
+
+/**
+ * Route pattern (`/users/:id`) rather than the concrete path, so reports group well
+ */
+function getRoutePattern(req: ExpressRequest): string | undefined {
+  const path = req.route?.path;
+  if (path === undefined) {
+    return undefined;
+  }
+  return `${req.baseUrl ?? ''}${String(path)}`;
+}
+
+function redactCredentials(headers: Record<string, string | string[] | undefined>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = CREDENTIAL_HEADERS.includes(name.toLowerCase()) ? '[REDACTED]' : value;
+  }
+  return result;
+}
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function generateRequestId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -1,10 +1,30 @@
+import axios from 'axios';
 import type { ErrorNotification, NotificationProvider } from '../types/index.js';
+import { RateLimitError, RateLimiter, parseRetryAfter } from '../utils/rate-limiter.js';
+
+/**
+ * Thrown when a send reached only some of its recipients (SMS) or message
+ * parts (Telegram). `pending` is merged into the notification before it is
+ * persisted, so a redelivery skips what already arrived.
+ */
+export class PartialDeliveryError extends Error {
+  readonly pending: Pick<ErrorNotification, 'recipients' | 'sentParts'>;
+
+  constructor(message: string, pending: Pick<ErrorNotification, 'recipients' | 'sentParts'>) {
+    super(message);
+    this.name = 'PartialDeliveryError';
+    this.pending = pending;
+  }
+}
 
 export abstract class BaseProvider implements NotificationProvider {
   protected name: string;
+  protected channel?: string;
+  protected rateLimiter?: RateLimiter;
 
-  constructor(name: string) {
+  constructor(name: string, channel?: string) {
     this.name = name;
+    this.channel = channel;
   }
 
   abstract send(notification: ErrorNotification): Promise<void>;
@@ -15,6 +35,36 @@ export abstract class BaseProvider implements NotificationProvider {
     return this.name;
   }
 
+  getChannel(): string | undefined {
+    return this.channel;
+  }
+
+  accepts(_notification: ErrorNotification): boolean {
+    return true;
+  }
+
+  /**
+   * Convert a 429 response into a RateLimitError and pause the rate limiter.
+   * The delay is read from the response body when the platform puts it there,
+   * then from the Retry-After header (both in seconds).
+   */
+  protected toRateLimitError(
+    error: unknown,
+    getBodyRetryAfter?: (data: any) => unknown,
+    defaultRetryAfter: number = 1000
+  ): unknown {
+    if (!axios.isAxiosError(error) || error.response?.status !== 429) {
+      return error;
+    }
+
+    const retryAfter = parseRetryAfter(getBodyRetryAfter?.(error.response.data))
+      ?? parseRetryAfter(error.response.headers?.['retry-after'])
+      ?? defaultRetryAfter;
+
+    this.rateLimiter?.pause(retryAfter);
+    return new RateLimitError(`${this.name} rate limited, retry after ${retryAfter}ms`, retryAfter);
+  }
+
   protected async sendWithFallback(
     sendFn: () => Promise<void>,
     notification: ErrorNotification
@@ -1,16 +1,21 @@
 import axios from 'axios';
-import type { ErrorNotification, DiscordConfig } from '../types/index.js';
+import type { BeaconRequest, ErrorNotification, DiscordConfig, RateLimitRule } from '../types/index.js';
 import { BaseProvider } from './base-provider.js';
 import { MessageFormatter } from '../utils/message-formatter.js';
 import { RetryManager } from '../utils/retry-manager.js';
+import { RateLimiterPool, parseRetryAfter } from '../utils/rate-limiter.js';
+import { isSeverityAtLeast } from '../utils/severity.js';
 
 export class DiscordProvider extends BaseProvider {
+  /** Discord webhooks allow 5 requests per 2 seconds */
+  static readonly RATE_LIMIT: RateLimitRule = { capacity: 5, intervalMs: 2000 };
+
   private config: DiscordConfig;
   private formatter: MessageFormatter;
   private retryManager: RetryManager;
 
-  constructor(config: DiscordConfig, retryManager: RetryManager) {
-    super('Discord');
+  constructor(config: DiscordConfig, retryManager: RetryManager, rateLimiters?: RateLimiterPool) {
+    super('Discord', config.name);
     this.config = config;
     this.formatter = new MessageFormatter();
     this.retryManager = retryManager;
@@ -18,27 +23,40 @@ export class DiscordProvider extends BaseProvider {
     if (!this.validateConfig()) {
       throw new Error('Invalid Discord configuration');
     }
+
+    this.rateLimiter = rateLimiters?.get(config.webhookUrl, DiscordProvider.RATE_LIMIT);
   }
 
   async send(notification: ErrorNotification): Promise<void> {
-    const payload = this.formatter.formatForDiscord(notification);
-
-    // Add custom username and avatar if provided
-    if (this.config.username) {
-      payload.username = this.config.username;
-    }
-    if (this.config.avatarUrl) {
-      payload.avatar_url = this.config.avatarUrl;
+    if (!this.accepts(notification)) {
+      return;
     }
 
+    const payload = this.buildPayload(notification);
+    const url = this.getUrl();
+
     await this.retryManager.executeWithRetry(
       async () => {
         await this.sendWithFallback(
           async () => {
-            const response = await axios.post(this.config.webhookUrl, payload, {
-              headers: { 'Content-Type': 'application/json' },
-              timeout: 5000
-            });
+            await this.rateLimiter?.acquire();
+
+            let response;
+            try {
+              response = await axios.post(url, payload, {
+                headers: { 'Content-Type': 'application/json' },
+                timeout: 5000
+              });
+            } catch (error) {
+              throw this.toRateLimitError(error, data => data?.retry_after);
+            }
+
+            // Discord reports the remaining bucket on every response
+            const remaining = response.headers?.['x-ratelimit-remaining'];
+            this.rateLimiter?.applyServerLimit(
+              remaining !== undefined ? Number(remaining) : undefined,
+              parseRetryAfter(response.headers?.['x-ratelimit-reset-after'])
+            );
 
             if (response.status < 200 || response.status >= 300) {
               throw new Error(`Discord API returned status ${response.status}`);
@@ -49,10 +67,45 @@ export class DiscordProvider extends BaseProvider {
       },
       (attempt, error) => {
         console.warn(`[Discord] Retry attempt ${attempt} after error:`, error.message);
-      }
+      },
+      notification
     );
   }
 
+  createBeaconRequest(notification: ErrorNotification): BeaconRequest {
+    return {
+      url: this.getUrl(),
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.buildPayload(notification))
+    };
+  }
+
+  accepts(notification: ErrorNotification): boolean {
+    return isSeverityAtLeast(notification.severity, this.config.minSeverity ?? 'info');
+  }
+
+  private buildPayload(notification: ErrorNotification): any {
+    const payload = this.formatter.formatForDiscord(notification);
+
+    // Add custom username and avatar if provided
+    if (this.config.username) {
+      payload.username = this.config.username;
+    }
+    if (this.config.avatarUrl) {
+      payload.avatar_url = this.config.avatarUrl;
+    }
+
+    return payload;
+  }
+
+  private getUrl(): string {
+    if (!this.config.threadId) {
+      return this.config.webhookUrl;
+    }
+    const separator = this.config.webhookUrl.includes('?') ? '&' : '?';
+    return `${this.config.webhookUrl}${separator}thread_id=${encodeURIComponent(this.config.threadId)}`;
+  }
+
   validateConfig(): boolean {
     if (!this.config.webhookUrl) {
       return false;
@@ -0,0 +1,99 @@
+import type { EmailConfig, ErrorNotification } from '../types/index.js';
+import { BaseProvider } from './base-provider.js';
+import { MessageFormatter } from '../utils/message-formatter.js';
+import { RetryManager } from '../utils/retry-manager.js';
+import { SmtpClient } from '../utils/smtp-client.js';
+import { isSeverityAtLeast } from '../utils/severity.js';
+import { isLocalHost } from '../utils/local-host.js';
+
+const ADDRESS_PATTERN = /^[^\s<>@,;:"]+@[^\s<>@,;:"]+$/;
+
+export class EmailProvider extends BaseProvider {
+  private config: EmailConfig;
+  private formatter: MessageFormatter;
+  private retryManager: RetryManager;
+
+  constructor(config: EmailConfig, retryManager: RetryManager) {
+    super('Email', config.name);
+    this.config = config;
+    this.formatter = new MessageFormatter();
+    this.retryManager = retryManager;
+
+    if (!this.validateConfig()) {
+      throw new Error('Invalid Email configuration');
+    }
+  }
+
+  async send(notification: ErrorNotification): Promise<void> {
+    if (!this.accepts(notification)) {
+      return;
+    }
+
+    const content = this.formatter.formatForEmail(notification);
+    const subject = this.config.subjectPrefix
+      ? `${this.config.subjectPrefix} ${content.subject}`
+      : content.subject;
+
+    await this.retryManager.executeWithRetry(
+      async () => {
+        await this.sendWithFallback(
+          async () => {
+            await this.createClient().send({
+              from: this.config.from,
+              to: this.config.to,
+              cc: this.config.cc,
+              subject,
+              text: content.text,
+              html: content.html
+            });
+          },
+          notification
+        );
+      },
+      (attempt, error) => {
+        console.warn(`[Email] Retry attempt ${attempt} after error:`, error.message);
+      },
+      notification
+    );
+  }
+
+  accepts(notification: ErrorNotification): boolean {
+    return isSeverityAtLeast(notification.severity, this.config.minSeverity ?? 'info');
+  }
+
+  validateConfig(): boolean {
+    if (!this.config.host) {
+      return false;
+    }
+    if (!ADDRESS_PATTERN.test(this.config.from)) {
+      return false;
+    }
+    if (!Array.isArray(this.config.to) || this.config.to.length === 0) {
+      return false;
+    }
+    if (![...this.config.to, ...(this.config.cc ?? [])].every(address => ADDRESS_PATTERN.test(address))) {
+      return false;
+    }
+
+    // Never send credentials in plain text to a remote server
+    const plainText = !this.config.secure && this.config.startTls === 'disabled';
+    if (this.config.auth && plainText && !isLocalHost(this.config.host)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private createClient(): SmtpClient {
+    return new SmtpClient({
+      host: this.config.host,
+      port: this.config.port ?? (this.config.secure ? 465 : 587),
+      secure: this.config.secure ?? false,
+      startTls: this.config.startTls ?? 'opportunistic',
+      auth: this.config.auth,
+      rejectUnauthorized: this.config.rejectUnauthorized ?? true,
+      timeout: 10000,
+      clientName: 'error-logger'
+    });
+  }
+}
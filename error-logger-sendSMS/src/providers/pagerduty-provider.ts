@@ -0,0 +1,152 @@
+import axios from 'axios';
+import type {
+  ErrorNotification,
+  ErrorSeverity,
+  PagerDutyConfig,
+  PagerDutySeverity,
+  RateLimitRule
+} from '../types/index.js';
+import { BaseProvider } from './base-provider.js';
+import { RetryManager } from '../utils/retry-manager.js';
+import { RateLimiterPool } from '../utils/rate-limiter.js';
+import { computeFingerprint } from '../utils/fingerprint.js';
+import { isSeverityAtLeast } from '../utils/severity.js';
+import { isSecureOrLocalUrl } from '../utils/local-host.js';
+
+const DEFAULT_ENDPOINT = 'https://events.pagerduty.com/v2/enqueue';
+
+const DEFAULT_SEVERITY_MAP: Record<ErrorSeverity, PagerDutySeverity> = {
+  fatal: 'critical',
+  error: 'error',
+  warning: 'warning',
+  info: 'info'
+};
+
+export class PagerDutyProvider extends BaseProvider {
+  /** Events API v2 accepts 120 events per minute per routing key */
+  static readonly RATE_LIMIT: RateLimitRule = { capacity: 120, intervalMs: 60000 };
+
+  private config: PagerDutyConfig;
+  private retryManager: RetryManager;
+
+  constructor(config: PagerDutyConfig, retryManager: RetryManager, rateLimiters?: RateLimiterPool) {
+    super('PagerDuty', config.name);
+    this.config = config;
+    this.retryManager = retryManager;
+
+    if (!this.validateConfig()) {
+      throw new Error('Invalid PagerDuty configuration');
+    }
+
+    this.rateLimiter = rateLimiters?.get(`pagerduty:${config.routingKey}`, PagerDutyProvider.RATE_LIMIT);
+  }
+
+  async send(notification: ErrorNotification): Promise<void> {
+    if (!this.accepts(notification)) {
+      return;
+    }
+
+    const customDetails: Record<string, any> = {};
+    if (notification.stack) {
+      customDetails.stack = notification.stack;
+    }
+    if (notification.environment) {
+      customDetails.environment = notification.environment;
+    }
+    if (notification.url) {
+      customDetails.url = notification.url;
+    }
+    if (notification.occurrences) {
+      customDetails.occurrences = notification.occurrences;
+    }
+    if (notification.metadata) {
+      customDetails.metadata = notification.metadata;
+    }
+
+    const event: any = {
+      routing_key: this.config.routingKey,
+      event_action: 'trigger',
+      dedup_key: notification.fingerprint ?? computeFingerprint(notification),
+      client: 'error-logger-sendsms',
+      payload: {
+        summary: notification.message.slice(0, 1024),
+        source: this.config.source || notification.environment || 'error-logger',
+        severity: this.mapSeverity(notification.severity),
+        timestamp: notification.timestamp,
+        component: this.config.component,
+        group: this.config.group,
+        class: this.config.class,
+        custom_details: customDetails
+      }
+    };
+
+    if (notification.url) {
+      event.links = [{ href: notification.url, text: 'URL' }];
+    }
+
+    await this.enqueue(event, notification);
+  }
+
+  async resolve(dedupKey: string): Promise<void> {
+    const event = {
+      routing_key: this.config.routingKey,
+      event_action: 'resolve',
+      dedup_key: dedupKey
+    };
+
+    await this.enqueue(event, {
+      message: `Resolve ${dedupKey}`,
+      severity: 'info',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  accepts(notification: ErrorNotification): boolean {
+    return isSeverityAtLeast(notification.severity, this.config.minSeverity ?? 'error');
+  }
+
+  validateConfig(): boolean {
+    if (!this.config.routingKey) {
+      return false;
+    }
+
+    const endpoint = this.config.endpoint || DEFAULT_ENDPOINT;
+    // Plain HTTP is only allowed for local mock servers and receivers
+    return isSecureOrLocalUrl(endpoint);
+  }
+
+  private mapSeverity(severity: ErrorSeverity): PagerDutySeverity {
+    return this.config.severityMap?.[severity] ?? DEFAULT_SEVERITY_MAP[severity] ?? 'error';
+  }
+
+  private async enqueue(event: any, notification: ErrorNotification): Promise<void> {
+    await this.retryManager.executeWithRetry(
+      async () => {
+        await this.sendWithFallback(
+          async () => {
+            await this.rateLimiter?.acquire();
+
+            let response;
+            try {
+              response = await axios.post(this.config.endpoint || DEFAULT_ENDPOINT, event, {
+                headers: { 'Content-Type': 'application/json' },
+                timeout: 5000
+              });
+            } catch (error) {
+              throw this.toRateLimitError(error, undefined, 5000);
+            }
+
+            if (response.status < 200 || response.status >= 300) {
+              throw new Error(`PagerDuty API returned status ${response.status}`);
+            }
+          },
+          notification
+        );
+      },
+      (attempt, error) => {
+        console.warn(`[PagerDuty] Retry attempt ${attempt} after error:`, error.message);
+      },
+      notification
+    );
+  }
+}
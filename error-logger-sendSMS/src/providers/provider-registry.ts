@@ -0,0 +1,37 @@
+import type { NotificationProvider, ProviderFactory, ProviderFactoryContext } from '../types/index.js';
+
+export class ProviderRegistry {
+  private factories: Map<string, ProviderFactory> = new Map();
+
+  register(name: string, factory: ProviderFactory): void {
+    if (!name) {
+      throw new Error('Provider name is required');
+    }
+    this.factories.set(name, factory);
+  }
+
+  unregister(name: string): boolean {
+    return this.factories.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  create(name: string, options: unknown, context: ProviderFactoryContext): NotificationProvider {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown provider: ${name}`);
+    }
+
+    const provider = factory(options, context);
+    if (!provider.validateConfig()) {
+      throw new Error(`Invalid ${provider.getName()} configuration`);
+    }
+    return provider;
+  }
+}
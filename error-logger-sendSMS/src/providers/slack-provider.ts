@@ -1,16 +1,21 @@
 import axios from 'axios';
-import type { ErrorNotification, SlackConfig } from '../types/index.js';
+import type { BeaconRequest, ErrorNotification, SlackConfig, RateLimitRule } from '../types/index.js';
 import { BaseProvider } from './base-provider.js';
 import { MessageFormatter } from '../utils/message-formatter.js';
 import { RetryManager } from '../utils/retry-manager.js';
+import { RateLimiterPool } from '../utils/rate-limiter.js';
+import { isSeverityAtLeast } from '../utils/severity.js';
 
 export class SlackProvider extends BaseProvider {
+  /** Slack incoming webhooks allow 1 message per second */
+  static readonly RATE_LIMIT: RateLimitRule = { capacity: 1, intervalMs: 1000 };
+
   private config: SlackConfig;
   private formatter: MessageFormatter;
   private retryManager: RetryManager;
 
-  constructor(config: SlackConfig, retryManager: RetryManager) {
-    super('Slack');
+  constructor(config: SlackConfig, retryManager: RetryManager, rateLimiters?: RateLimiterPool) {
+    super('Slack', config.name);
     this.config = config;
     this.formatter = new MessageFormatter();
     this.retryManager = retryManager;
@@ -18,27 +23,32 @@ export class SlackProvider extends BaseProvider {
     if (!this.validateConfig()) {
       throw new Error('Invalid Slack configuration');
     }
+
+    this.rateLimiter = rateLimiters?.get(config.webhookUrl, SlackProvider.RATE_LIMIT);
   }
 
   async send(notification: ErrorNotification): Promise<void> {
-    const payload = this.formatter.formatForSlack(notification);
-
-    // Add custom username and channel if provided
-    if (this.config.username) {
-      payload.username = this.config.username;
-    }
-    if (this.config.channel) {
-      payload.channel = this.config.channel;
+    if (!this.accepts(notification)) {
+      return;
     }
 
+    const payload = this.buildPayload(notification);
+
     await this.retryManager.executeWithRetry(
       async () => {
         await this.sendWithFallback(
           async () => {
-            const response = await axios.post(this.config.webhookUrl, payload, {
-              headers: { 'Content-Type': 'application/json' },
-              timeout: 5000
-            });
+            await this.rateLimiter?.acquire();
+
+            let response;
+            try {
+              response = await axios.post(this.config.webhookUrl, payload, {
+                headers: { 'Content-Type': 'application/json' },
+                timeout: 5000
+              });
+            } catch (error) {
+              throw this.toRateLimitError(error);
+            }
 
             if (response.status < 200 || response.status >= 300) {
               throw new Error(`Slack API returned status ${response.status}`);
@@ -54,10 +64,43 @@ export class SlackProvider extends BaseProvider {
       },
       (attempt, error) => {
         console.warn(`[Slack] Retry attempt ${attempt} after error:`, error.message);
-      }
+      },
+      notification
     );
   }
 
+  createBeaconRequest(notification: ErrorNotification): BeaconRequest {
+    return {
+      url: this.config.webhookUrl,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.buildPayload(notification))
+    };
+  }
+
+  accepts(notification: ErrorNotification): boolean {
+    return isSeverityAtLeast(notification.severity, this.config.minSeverity ?? 'info');
+  }
+
+  private buildPayload(notification: ErrorNotification): any {
+    const payload = this.formatter.formatForSlack(notification);
+
+    // Add custom username, channel and icon if provided
+    if (this.config.username) {
+      payload.username = this.config.username;
+    }
+    if (this.config.channel) {
+      payload.channel = this.config.channel;
+    }
+    if (this.config.iconUrl) {
+      payload.icon_url = this.config.iconUrl;
+    }
+    if (this.config.iconEmoji) {
+      payload.icon_emoji = this.config.iconEmoji;
+    }
+
+    return payload;
+  }
+
   validateConfig(): boolean {
     if (!this.config.webhookUrl) {
       return false;
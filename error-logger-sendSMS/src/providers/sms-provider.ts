@@ -0,0 +1,133 @@
+import axios from 'axios';
+import type { ErrorNotification, RateLimitRule, SmsConfig } from '../types/index.js';
+import { BaseProvider, PartialDeliveryError } from './base-provider.js';
+import { MessageFormatter } from '../utils/message-formatter.js';
+import { RetryManager } from '../utils/retry-manager.js';
+import { RateLimiterPool } from '../utils/rate-limiter.js';
+import { isSeverityAtLeast } from '../utils/severity.js';
+import { isSecureOrLocalUrl } from '../utils/local-host.js';
+
+const DEFAULT_BASE_URL = 'https://api.twilio.com';
+
+export class SmsProvider extends BaseProvider {
+  /** Twilio long-code numbers send about 1 message per second */
+  static readonly RATE_LIMIT: RateLimitRule = { capacity: 1, intervalMs: 1000 };
+
+  private config: SmsConfig;
+  private formatter: MessageFormatter;
+  private retryManager: RetryManager;
+
+  constructor(config: SmsConfig, retryManager: RetryManager, rateLimiters?: RateLimiterPool) {
+    super('SMS', config.name);
+    this.config = config;
+    this.formatter = new MessageFormatter();
+    this.retryManager = retryManager;
+
+    if (!this.validateConfig()) {
+      throw new Error('Invalid SMS configuration');
+    }
+
+    this.rateLimiter = rateLimiters?.get(`sms:${config.from}`, SmsProvider.RATE_LIMIT);
+  }
+
+  async send(notification: ErrorNotification): Promise<void> {
+    if (!this.accepts(notification)) {
+      return;
+    }
+
+    const body = this.formatter.formatForSms(notification);
+    const url = `${this.getBaseUrl()}/2010-04-01/Accounts/${encodeURIComponent(this.config.accountSid)}/Messages.json`;
+
+    // A redelivery only goes to the recipients the earlier send missed
+    const recipients = notification.recipients
+      ? this.config.to.filter(recipient => notification.recipients!.includes(recipient))
+      : this.config.to;
+
+    // Send to each recipient independently so one bad number doesn't block the rest
+    const results = await Promise.allSettled(
+      recipients.map(recipient => this.sendToRecipient(url, recipient, body, notification))
+    );
+
+    const failed = recipients.filter((_recipient, index) => results[index].status === 'rejected');
+    if (failed.length === 0) {
+      return;
+    }
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')!;
+    if (failed.length === recipients.length) {
+      throw failure.reason;
+    }
+    throw new PartialDeliveryError(
+      `SMS delivery failed for ${failed.length} of ${recipients.length} recipients: ${failure.reason?.message ?? failure.reason}`,
+      { recipients: failed }
+    );
+  }
+
+  validateConfig(): boolean {
+    if (!this.config.accountSid || !this.config.authToken || !this.config.from) {
+      return false;
+    }
+    if (!Array.isArray(this.config.to) || this.config.to.length === 0) {
+      return false;
+    }
+
+    // Plain HTTP is only allowed for local mock servers and receivers
+    return isSecureOrLocalUrl(this.getBaseUrl());
+  }
+
+  accepts(notification: ErrorNotification): boolean {
+    if (!isSeverityAtLeast(notification.severity, this.config.minSeverity ?? 'error')) {
+      return false;
+    }
+
+    const environments = this.config.environments;
+    if (environments && environments.length > 0) {
+      return notification.environment !== undefined && environments.includes(notification.environment);
+    }
+
+    return true;
+  }
+
+  private async sendToRecipient(
+    url: string,
+    recipient: string,
+    body: string,
+    notification: ErrorNotification
+  ): Promise<void> {
+    const form = new URLSearchParams({ To: recipient, From: this.config.from, Body: body });
+
+    await this.retryManager.executeWithRetry(
+      async () => {
+        await this.sendWithFallback(
+          async () => {
+            await this.rateLimiter?.acquire();
+
+            let response;
+            try {
+              response = await axios.post(url, form.toString(), {
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                auth: { username: this.config.accountSid, password: this.config.authToken },
+                timeout: 5000
+              });
+            } catch (error) {
+              throw this.toRateLimitError(error);
+            }
+
+            if (response.status < 200 || response.status >= 300) {
+              throw new Error(`SMS API returned status ${response.status}`);
+            }
+          },
+          notification
+        );
+      },
+      (attempt, error) => {
+        console.warn(`[SMS] Retry attempt ${attempt} after error:`, error.message);
+      },
+      notification
+    );
+  }
+
+  private getBaseUrl(): string {
+    return (this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+}
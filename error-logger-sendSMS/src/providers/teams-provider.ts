@@ -0,0 +1,88 @@
+import axios from 'axios';
+import type { BeaconRequest, ErrorNotification, RateLimitRule, TeamsConfig } from '../types/index.js';
+import { BaseProvider } from './base-provider.js';
+import { MessageFormatter } from '../utils/message-formatter.js';
+import { RetryManager } from '../utils/retry-manager.js';
+import { RateLimiterPool } from '../utils/rate-limiter.js';
+
+/** Incoming webhook (webhook.office.com) and Workflows (logic.azure.com, powerplatform.com) hosts */
+const TEAMS_HOST_PATTERN = /(^|\.)(webhook\.office\.com|logic\.azure\.com|powerplatform\.com)$/;
+
+export class TeamsProvider extends BaseProvider {
+  /** Teams connectors are throttled above 4 requests per second */
+  static readonly RATE_LIMIT: RateLimitRule = { capacity: 4, intervalMs: 1000 };
+
+  private config: TeamsConfig;
+  private formatter: MessageFormatter;
+  private retryManager: RetryManager;
+
+  constructor(config: TeamsConfig, retryManager: RetryManager, rateLimiters?: RateLimiterPool) {
+    super('Teams', config.name);
+    this.config = config;
+    this.formatter = new MessageFormatter();
+    this.retryManager = retryManager;
+
+    if (!this.validateConfig()) {
+      throw new Error('Invalid Teams configuration');
+    }
+
+    this.rateLimiter = rateLimiters?.get(config.webhookUrl, TeamsProvider.RATE_LIMIT);
+  }
+
+  async send(notification: ErrorNotification): Promise<void> {
+    const payload = this.formatter.formatForTeams(notification);
+
+    await this.retryManager.executeWithRetry(
+      async () => {
+        await this.sendWithFallback(
+          async () => {
+            await this.rateLimiter?.acquire();
+
+            let response;
+            try {
+              response = await axios.post(this.config.webhookUrl, payload, {
+                headers: { 'Content-Type': 'application/json' },
+                timeout: 5000
+              });
+            } catch (error) {
+              throw this.toRateLimitError(error);
+            }
+
+            // Incoming webhooks return 200, Workflows return 202
+            if (response.status < 200 || response.status >= 300) {
+              throw new Error(`Teams API returned status ${response.status}`);
+            }
+          },
+          notification
+        );
+      },
+      (attempt, error) => {
+        console.warn(`[Teams] Retry attempt ${attempt} after error:`, error.message);
+      },
+      notification
+    );
+  }
+
+  validateConfig(): boolean {
+    if (!this.config.webhookUrl) {
+      return false;
+    }
+    if (!this.config.webhookUrl.startsWith('https://')) {
+      return false;
+    }
+
+    try {
+      return TEAMS_HOST_PATTERN.test(new URL(this.config.webhookUrl).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  createBeaconRequest(notification: ErrorNotification): BeaconRequest {
+    return {
+      url: this.config.webhookUrl,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.formatter.formatForTeams(notification))
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import axios from 'axios';
+import type { ErrorNotification, RateLimitRule, TelegramConfig } from '../types/index.js';
+import { BaseProvider, PartialDeliveryError } from './base-provider.js';
+import { MessageFormatter } from '../utils/message-formatter.js';
+import { RetryManager } from '../utils/retry-manager.js';
+import { RateLimiterPool } from '../utils/rate-limiter.js';
+import { isSecureOrLocalUrl } from '../utils/local-host.js';
+
+const DEFAULT_BASE_URL = 'https://api.telegram.org';
+
+export class TelegramProvider extends BaseProvider {
+  /** Bots may send 20 messages per minute to a group (and 1 per second to a chat) */
+  static readonly RATE_LIMIT: RateLimitRule = { capacity: 1, intervalMs: 3000 };
+
+  private config: TelegramConfig;
+  private formatter: MessageFormatter;
+  private retryManager: RetryManager;
+
+  constructor(config: TelegramConfig, retryManager: RetryManager, rateLimiters?: RateLimiterPool) {
+    super('Telegram', config.name);
+    this.config = config;
+    this.formatter = new MessageFormatter();
+    this.retryManager = retryManager;
+
+    if (!this.validateConfig()) {
+      throw new Error('Invalid Telegram configuration');
+    }
+
+    this.rateLimiter = rateLimiters?.get(`telegram:${config.chatId}`, TelegramProvider.RATE_LIMIT);
+  }
+
+  async send(notification: ErrorNotification): Promise<void> {
+    const messages = this.formatter.formatForTelegram(notification);
+    const url = `${this.getBaseUrl()}/bot${this.config.botToken}/sendMessage`;
+
+    // Send parts in order so a split stack trace reads top to bottom. A
+    // redelivery resumes after the parts an earlier send already delivered.
+    const firstPart = notification.sentParts ?? 0;
+    for (let part = firstPart; part < messages.length; part++) {
+      const payload: any = {
+        chat_id: this.config.chatId,
+        text: messages[part],
+        parse_mode: 'MarkdownV2',
+        disable_web_page_preview: true
+      };
+
+      if (this.config.messageThreadId !== undefined) {
+        payload.message_thread_id = this.config.messageThreadId;
+      }
+      if (this.config.disableNotification) {
+        payload.disable_notification = true;
+      }
+
+      try {
+        await this.sendMessage(url, payload, notification);
+      } catch (error) {
+        if (part === firstPart) {
+          throw error;
+        }
+        throw new PartialDeliveryError(
+          `Telegram delivery failed after ${part} of ${messages.length} parts: ${(error as Error)?.message ?? error}`,
+          { sentParts: part }
+        );
+      }
+    }
+  }
+
+  validateConfig(): boolean {
+    if (!this.config.botToken || !/^\d+:[A-Za-z0-9_-]+$/.test(this.config.botToken)) {
+      return false;
+    }
+    if (this.config.chatId === undefined || this.config.chatId === '') {
+      return false;
+    }
+
+    // Plain HTTP is only allowed for local mock servers and receivers
+    return isSecureOrLocalUrl(this.getBaseUrl());
+  }
+
+  private async sendMessage(url: string, payload: any, notification: ErrorNotification): Promise<void> {
+    await this.retryManager.executeWithRetry(
+      async () => {
+        await this.sendWithFallback(
+          async () => {
+            await this.rateLimiter?.acquire();
+
+            let response;
+            try {
+              response = await axios.post(url, payload, {
+                headers: { 'Content-Type': 'application/json' },
+                timeout: 5000
+              });
+            } catch (error) {
+              throw this.toRateLimitError(error, data => data?.parameters?.retry_after);
+            }
+
+            if (response.status < 200 || response.status >= 300) {
+              throw new Error(`Telegram API returned status ${response.status}`);
+            }
+
+            // Bot API wraps every result in { ok, result | description }
+            if (response.data?.ok !== true) {
+              throw new Error(`Telegram API returned error: ${response.data?.description ?? 'unknown'}`);
+            }
+          },
+          notification
+        );
+      },
+      (attempt, error) => {
+        console.warn(`[Telegram] Retry attempt ${attempt} after error:`, error.message);
+      },
+      notification
+    );
+  }
+
+  private getBaseUrl(): string {
+    return (this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+}
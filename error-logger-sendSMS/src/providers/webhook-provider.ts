@@ -0,0 +1,105 @@
+import axios from 'axios';
+import type { BeaconRequest, ErrorNotification, WebhookConfig } from '../types/index.js';
+import { BaseProvider } from './base-provider.js';
+import { MessageFormatter } from '../utils/message-formatter.js';
+import { RetryManager } from '../utils/retry-manager.js';
+import { hmacSha256Hex } from '../utils/hmac.js';
+import { isSecureOrLocalUrl } from '../utils/local-host.js';
+
+const METHODS = ['POST', 'PUT', 'PATCH'];
+
+export class WebhookProvider extends BaseProvider {
+  private config: WebhookConfig;
+  private formatter: MessageFormatter;
+  private retryManager: RetryManager;
+
+  constructor(config: WebhookConfig, retryManager: RetryManager) {
+    super('Webhook', config.name);
+    this.config = config;
+    this.formatter = new MessageFormatter();
+    this.retryManager = retryManager;
+
+    if (!this.validateConfig()) {
+      throw new Error('Invalid Webhook configuration');
+    }
+  }
+
+  async send(notification: ErrorNotification): Promise<void> {
+    const body = JSON.stringify(this.formatter.formatForWebhook(notification, this.config.bodyTemplate));
+
+    await this.retryManager.executeWithRetry(
+      async () => {
+        await this.sendWithFallback(
+          async () => {
+            let response;
+            try {
+              response = await axios.request({
+                url: this.config.url,
+                method: this.config.method ?? 'POST',
+                data: body,
+                // Sign on every attempt so the timestamp stays fresh
+                headers: this.buildHeaders(body),
+                timeout: 5000,
+                transformRequest: [(data: string) => data]
+              });
+            } catch (error) {
+              throw this.toRateLimitError(error);
+            }
+
+            if (response.status < 200 || response.status >= 300) {
+              throw new Error(`Webhook returned status ${response.status}`);
+            }
+          },
+          notification
+        );
+      },
+      (attempt, error) => {
+        console.warn(`[Webhook] Retry attempt ${attempt} after error:`, error.message);
+      },
+      notification
+    );
+  }
+
+  createBeaconRequest(notification: ErrorNotification): BeaconRequest {
+    const body = JSON.stringify(this.formatter.formatForWebhook(notification, this.config.bodyTemplate));
+    return {
+      url: this.config.url,
+      method: this.config.method ?? 'POST',
+      headers: this.buildHeaders(body),
+      body
+    };
+  }
+
+  validateConfig(): boolean {
+    if (!this.config.url) {
+      return false;
+    }
+    if (this.config.method && !METHODS.includes(this.config.method)) {
+      return false;
+    }
+    if (this.config.signing && !this.config.signing.secret) {
+      return false;
+    }
+    // Plain HTTP is only allowed for local mock servers and receivers
+    return isSecureOrLocalUrl(this.config.url);
+  }
+
+  /**
+   * Receivers verify `sha256=HMAC(secret, "<timestamp>.<body>")` and reject stale timestamps
+   */
+  private buildHeaders(body: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.headers
+    };
+
+    const signing = this.config.signing;
+    if (signing) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      headers[signing.timestampHeader ?? 'X-Signature-Timestamp'] = timestamp;
+      headers[signing.header ?? 'X-Signature'] = `sha256=${hmacSha256Hex(signing.secret, `${timestamp}.${body}`)}`;
+    }
+
+    return headers;
+  }
+}
@@ -0,0 +1,78 @@
+import type {
+  BreadcrumbConfig,
+  DeduplicationConfig,
+  DigestConfig,
+  OutboxConfig,
+  RateLimitConfig,
+  RetryPolicy,
+  SanitizationConfig
+} from './index.js';
+
+// Defaults for each config section, shared by ConfigManager and the utilities
+// that can also be constructed on their own
+
+export function mergeRetryPolicy(partial?: Partial<RetryPolicy>): RetryPolicy {
+  return {
+    maxAttempts: partial?.maxAttempts ?? 3,
+    baseDelay: partial?.baseDelay ?? 1000,
+    maxDelay: partial?.maxDelay ?? 30000,
+    jitter: partial?.jitter ?? true
+  };
+}
+
+export function mergeSanitizationConfig(partial?: Partial<SanitizationConfig>): SanitizationConfig {
+  return {
+    enabled: partial?.enabled ?? true,
+    customPatterns: partial?.customPatterns,
+    excludeDefaults: partial?.excludeDefaults ?? false,
+    strategy: partial?.strategy,
+    patternStrategies: partial?.patternStrategies,
+    keyStrategies: partial?.keyStrategies,
+    hashKey: partial?.hashKey
+  };
+}
+
+export function mergeRateLimitConfig(partial?: Partial<RateLimitConfig>): RateLimitConfig {
+  return {
+    enabled: partial?.enabled ?? true,
+    maxQueueSize: partial?.maxQueueSize ?? 1000
+  };
+}
+
+export function mergeBreadcrumbConfig(partial?: Partial<BreadcrumbConfig>): BreadcrumbConfig {
+  return {
+    enabled: partial?.enabled ?? true,
+    maxBreadcrumbs: partial?.maxBreadcrumbs ?? 20,
+    console: partial?.console ?? false,
+    fetch: partial?.fetch ?? false,
+    http: partial?.http ?? false,
+    navigation: partial?.navigation ?? false,
+    ignoreUrls: partial?.ignoreUrls
+  };
+}
+
+export function mergeDeduplicationConfig(partial?: Partial<DeduplicationConfig>): DeduplicationConfig {
+  return {
+    enabled: partial?.enabled ?? false,
+    windowMs: partial?.windowMs ?? 300000,
+    stackFrames: partial?.stackFrames ?? 5
+  };
+}
+
+export function mergeDigestConfig(partial?: Partial<DigestConfig>): DigestConfig {
+  return {
+    enabled: partial?.enabled ?? false,
+    severityBelow: partial?.severityBelow ?? 'error',
+    intervalMs: partial?.intervalMs ?? 300000
+  };
+}
+
+export function mergeOutboxConfig(partial?: Partial<OutboxConfig>): OutboxConfig {
+  return {
+    enabled: partial?.enabled ?? false,
+    directory: partial?.directory ?? '.error-logger',
+    maxItems: partial?.maxItems ?? 1000,
+    maxBytes: partial?.maxBytes ?? 5 * 1024 * 1024,
+    maxAgeMs: partial?.maxAgeMs ?? 24 * 60 * 60 * 1000
+  };
+}
@@ -3,15 +3,27 @@
  * These contracts define the public API surface and data structures
  */
 
+import type { RetryManager } from '../utils/retry-manager.js';
+import type { RateLimiterPool } from '../utils/rate-limiter.js';
+
 /**
  * Error severity levels for routing and display
  */
-export type ErrorSeverity = 'error' | 'warning' | 'info';
+export type ErrorSeverity = 'fatal' | 'error' | 'warning' | 'info';
 
 /**
  * Complete error notification with context
  */
 export interface ErrorNotification {
+  /** Unique id, quoted in Discord and Slack messages and returned in the delivery report */
+  id?: string;
+
+  /** Recipients still to be reached after a partial delivery (SMS); limits redelivery to them */
+  recipients?: string[];
+
+  /** Leading message parts already delivered (Telegram); redelivery resumes after them */
+  sentParts?: number;
+
   /** Primary error message */
   message: string;
 
@@ -21,9 +33,24 @@ export interface ErrorNotification {
   /** ISO 8601 timestamp */
   timestamp: string;
 
-  /** Stack trace (for Error objects) */
+  /** Stack trace (for Error objects), with paths anonymized */
   stack?: string;
 
+  /** Parsed stack frames, top frame first */
+  frames?: StackFrame[];
+
+  /** Error class name (e.g. `TypeError`), or the type of a thrown non-Error value */
+  errorType?: string;
+
+  /** Custom error properties such as `code`, `errno` or `statusCode` */
+  errorProperties?: Record<string, unknown>;
+
+  /** `error.cause` chain, direct cause first */
+  causes?: ErrorDetails[];
+
+  /** Errors wrapped by an `AggregateError` */
+  errors?: ErrorDetails[];
+
   /** Additional context metadata */
   metadata?: Record<string, any>;
 
@@ -35,6 +62,251 @@ export interface ErrorNotification {
 
   /** Browser/client user agent */
   userAgent?: string;
+
+  /** Script location reported by the browser for uncaught errors */
+  source?: SourceLocation;
+
+  /** Affected user, from the logger scope */
+  user?: ScopeUser;
+
+  /** Searchable key/value tags, from the logger scope */
+  tags?: Record<string, string>;
+
+  /** Named structured contexts (e.g. `order`, `device`), from the logger scope */
+  contexts?: Record<string, Record<string, unknown>>;
+
+  /** Events leading up to an exception, oldest first */
+  breadcrumbs?: Breadcrumb[];
+
+  /** Grouping fingerprint (computed, or `metadata.fingerprint` override) */
+  fingerprint?: string;
+
+  /** Repeat summary, set on follow-ups for suppressed duplicates */
+  occurrences?: OccurrenceSummary;
+
+  /** Batched notifications, set on periodic digest summaries */
+  digest?: DigestSummary;
+}
+
+/**
+ * Rewrites a notification before it is sent, or drops it by returning null.
+ * Receives a shallow copy; nested objects are shared with other hooks.
+ */
+export type EventProcessor = (
+  notification: ErrorNotification
+) => ErrorNotification | null | Promise<ErrorNotification | null>;
+
+/**
+ * Returns a sample rate (0-1), or true/false to keep or drop. Receives the
+ * unsanitized notification; undefined falls back to `sampleRates`.
+ */
+export type Sampler = (notification: ErrorNotification) => number | boolean | undefined;
+
+/**
+ * Why a notification was discarded before delivery
+ */
+export type DropReason = 'ignored' | 'deniedUrl' | 'sampled' | 'eventProcessor';
+
+/**
+ * Notifications discarded before delivery, per reason
+ */
+export type DroppedCounts = Record<DropReason, number>;
+
+/**
+ * Outcome of a notification on one channel
+ */
+export type DeliveryStatus = 'sent' | 'failed' | 'skipped' | 'rate-limited';
+
+export interface ProviderDelivery {
+  /** Channel key (`<provider>:<channel name or index>`) */
+  channel: string;
+
+  /** Provider name */
+  provider: string;
+
+  status: DeliveryStatus;
+
+  /** Send attempts including retries; 0 if the channel was skipped or its circuit breaker is open */
+  attempts: number;
+
+  /** Message of the last error, for failed and rate-limited deliveries */
+  lastError?: string;
+}
+
+/**
+ * What happened to a captured notification
+ */
+export interface DeliveryReport {
+  /** Notification id */
+  id: string;
+
+  /**
+   * Why the notification was not handed to the providers: dropped, logging
+   * disabled or closed, buffered for the digest, or suppressed as a duplicate
+   */
+  reason?: DropReason | 'disabled' | 'closed' | 'digest' | 'duplicate';
+
+  /**
+   * Grouping fingerprint, also used as the incident dedup key; pass it to
+   * `resolve()`. Missing when the notification was not grouped.
+   */
+  fingerprint?: string;
+
+  /** One entry per configured channel */
+  deliveries: ProviderDelivery[];
+}
+
+/**
+ * Normalized description of a thrown value (an Error, its causes or aggregated errors)
+ */
+export interface ErrorDetails {
+  /** Error class name or value type; absent for captured message strings */
+  type?: string;
+
+  message: string;
+
+  /** Stack trace with paths anonymized */
+  stack?: string;
+
+  frames?: StackFrame[];
+
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Single parsed stack frame
+ */
+export interface StackFrame {
+  /** Function name as reported by the engine, e.g. `Object.handler`, `async main` */
+  function?: string;
+
+  /** Anonymized file path or script URL */
+  file?: string;
+
+  line?: number;
+
+  column?: number;
+
+  /** false for node_modules, Node internals and native code */
+  inApp: boolean;
+}
+
+/**
+ * Event recorded before an error, e.g. a log line, request or navigation
+ */
+export interface Breadcrumb {
+  /** ISO 8601 timestamp (defaults to now) */
+  timestamp: string;
+
+  /** Source of the event, e.g. `console`, `fetch`, `http`, `navigation`, `auth` */
+  category: string;
+
+  /** Short human-readable description shown in the timeline */
+  message?: string;
+
+  level?: ErrorSeverity;
+
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Breadcrumb recording and automatic instrumentation
+ */
+export interface BreadcrumbConfig {
+  /** Enable/disable breadcrumbs */
+  enabled: boolean;
+
+  /** Number of most recent breadcrumbs kept and attached to exceptions */
+  maxBreadcrumbs: number;
+
+  /** Record console.log/info/warn/error/debug calls */
+  console: boolean;
+
+  /** Record fetch and XMLHttpRequest calls (browser) */
+  fetch: boolean;
+
+  /** Record outgoing http/https requests (Node.js) */
+  http: boolean;
+
+  /** Record history.pushState/replaceState and popstate navigation (browser) */
+  navigation: boolean;
+
+  /** Requests to matching URLs are not recorded (notification endpoints are always ignored) */
+  ignoreUrls?: Array<string | RegExp>;
+}
+
+/**
+ * User attached to notifications through ErrorLogger.setUser()
+ */
+export interface ScopeUser {
+  id?: string;
+  email?: string;
+  username?: string;
+  ipAddress?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Script file, line and column of an uncaught browser error
+ */
+export interface SourceLocation {
+  file: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Summary of duplicate notifications suppressed within a window
+ */
+export interface OccurrenceSummary {
+  /** Number of suppressed repeats */
+  count: number;
+
+  /** Deduplication window in milliseconds */
+  windowMs: number;
+
+  /** ISO 8601 timestamp of the first occurrence */
+  firstSeen: string;
+
+  /** ISO 8601 timestamp of the last suppressed occurrence */
+  lastSeen: string;
+}
+
+/**
+ * Count of buffered notifications sharing a message
+ */
+export interface DigestEntry {
+  message: string;
+
+  /** Highest severity seen for this message */
+  severity: ErrorSeverity;
+
+  count: number;
+
+  /** ISO 8601 timestamp of the first occurrence */
+  firstSeen: string;
+
+  /** ISO 8601 timestamp of the last occurrence */
+  lastSeen: string;
+}
+
+/**
+ * Periodic summary of notifications buffered in digest mode
+ */
+export interface DigestSummary {
+  /** Total buffered notifications */
+  total: number;
+
+  /** ISO 8601 timestamps bounding the digest period */
+  periodStart: string;
+  periodEnd: string;
+
+  /** Counts per message, most frequent first */
+  entries: DigestEntry[];
+
+  /** Most frequent environments and URLs, most frequent first */
+  environments: Array<{ value: string; count: number }>;
+  urls: Array<{ value: string; count: number }>;
 }
 
 /**
@@ -54,6 +326,28 @@ export interface RetryPolicy {
   jitter: boolean;
 }
 
+/**
+ * Keep the first and/or last characters of a value and mask the rest with `*`
+ */
+export interface PartialMask {
+  keepFirst?: number;
+  keepLast?: number;
+}
+
+/**
+ * How a sensitive value is masked:
+ * - `redact`: replaced with `[REDACTED]`
+ * - `hash`: keyed HMAC-SHA256 (`[HMAC:<16 hex chars>]`), equal values hash equally across events
+ * - `remove`: the key is dropped; a match inside a string is cut out
+ * - `PartialMask`: some characters stay visible
+ */
+export type MaskingStrategy = 'redact' | 'hash' | 'remove' | PartialMask;
+
+/**
+ * Names of the built-in patterns, usable as keys of `patternStrategies`
+ */
+export type DefaultPatternName = 'password' | 'token' | 'secret' | 'email' | 'creditCard' | 'ssn';
+
 /**
  * Data sanitization configuration
  */
@@ -66,6 +360,125 @@ export interface SanitizationConfig {
 
   /** Skip default patterns */
   excludeDefaults?: boolean;
+
+  /** Strategy for patterns and keys without their own (default: 'redact') */
+  strategy?: MaskingStrategy;
+
+  /** Strategy per built-in pattern name or custom pattern string */
+  patternStrategies?: Partial<Record<DefaultPatternName, MaskingStrategy>> & Record<string, MaskingStrategy>;
+
+  /**
+   * Strategy per key, at any depth (e.g. `email`), or per key path from the
+   * notification root (e.g. `metadata.user.email`). Matched case-insensitively;
+   * array indexes are not part of the path. Listed keys are masked even if no
+   * pattern matches them, and paths take precedence over plain keys.
+   */
+  keyStrategies?: Record<string, MaskingStrategy>;
+
+  /** Secret for the `hash` strategy; required when it is used */
+  hashKey?: string;
+}
+
+/**
+ * Duplicate suppression configuration
+ */
+export interface DeduplicationConfig {
+  /** Enable/disable burst deduplication */
+  enabled: boolean;
+
+  /** Window in milliseconds during which repeats are suppressed */
+  windowMs: number;
+
+  /** Number of top stack frames included in the fingerprint */
+  stackFrames: number;
+}
+
+/**
+ * Token bucket limits for a single webhook
+ */
+export interface RateLimitRule {
+  /** Requests allowed per interval (bucket size) */
+  capacity: number;
+
+  /** Interval in milliseconds over which the bucket refills */
+  intervalMs: number;
+}
+
+/**
+ * Outgoing rate limiting configuration
+ */
+export interface RateLimitConfig {
+  /** Enable/disable per-webhook rate limiting */
+  enabled: boolean;
+
+  /** Maximum queued sends per webhook before new sends are rejected */
+  maxQueueSize: number;
+}
+
+/**
+ * Options for the Express requestHandler() and errorLoggerMiddleware()
+ */
+export interface ExpressIntegrationOptions {
+  /** Header carrying the request id (default: x-request-id) */
+  requestIdHeader?: string;
+}
+
+/**
+ * Options for ErrorLogger.installGlobalHandlers()
+ */
+export interface GlobalHandlerOptions {
+  /** Exit the process once a fatal error has been reported */
+  exitOnFatal: boolean;
+
+  /** Exit code used after a fatal error */
+  exitCode: number;
+
+  /** Maximum time to wait for in-flight sends before exiting, in milliseconds */
+  flushTimeoutMs: number;
+}
+
+/**
+ * Digest mode: low-severity notifications are batched into periodic summaries
+ */
+export interface DigestConfig {
+  /** Enable/disable digest mode */
+  enabled: boolean;
+
+  /** Notifications below this severity are buffered; the rest are sent immediately */
+  severityBelow: ErrorSeverity;
+
+  /** Time between digests in milliseconds */
+  intervalMs: number;
+}
+
+/**
+ * Durable outbox for notifications that could not be delivered (Node.js only)
+ */
+export interface OutboxConfig {
+  /** Enable/disable persisting failed notifications to disk */
+  enabled: boolean;
+
+  /** Directory holding outbox.jsonl and dead-letter.jsonl */
+  directory: string;
+
+  /** Maximum pending notifications; the oldest are dropped beyond this */
+  maxItems: number;
+
+  /** Maximum outbox file size in bytes; the oldest are dropped beyond this */
+  maxBytes: number;
+
+  /** Pending notifications older than this are moved to the dead-letter file */
+  maxAgeMs: number;
+}
+
+/**
+ * Notification persisted in the outbox, addressed to a single channel
+ */
+export interface OutboxEntry {
+  id: string;
+  channel: string;
+  notification: ErrorNotification;
+  enqueuedAt: string;
 }
 
 /**
@@ -80,6 +493,18 @@ export interface DiscordConfig {
 
   /** Custom bot avatar URL */
   avatarUrl?: string;
+
+  /** Post into a thread of the webhook's channel */
+  threadId?: string;
+
+  /** Minimum severity posted to this channel (default: info) */
+  minSeverity?: ErrorSeverity;
+
+  /** Channel name used as a routing target */
+  name?: string;
+
+  /** Rewrite or drop (return null) notifications for this channel only */
+  beforeSend?: EventProcessor;
 }
 
 /**
@@ -94,17 +519,305 @@ export interface SlackConfig {
 
   /** Custom bot username */
   username?: string;
+
+  /** Custom bot icon URL */
+  iconUrl?: string;
+
+  /** Custom bot icon emoji (e.g. `:rotating_light:`) */
+  iconEmoji?: string;
+
+  /** Minimum severity posted to this channel (default: info) */
+  minSeverity?: ErrorSeverity;
+
+  /** Channel name used as a routing target */
+  name?: string;
+
+  /** Rewrite or drop (return null) notifications for this channel only */
+  beforeSend?: EventProcessor;
+}
+
+/**
+ * Microsoft Teams provider configuration
+ */
+export interface TeamsConfig {
+  /** Incoming webhook or Workflows (Power Automate) URL */
+  webhookUrl: string;
+
+  /** Channel name used as a routing target */
+  name?: string;
+
+  /** Rewrite or drop (return null) notifications for this channel only */
+  beforeSend?: EventProcessor;
+}
+
+/**
+ * Telegram bot provider configuration
+ */
+export interface TelegramConfig {
+  /** Bot token from @BotFather */
+  botToken: string;
+
+  /** Target chat id (or @channelusername) */
+  chatId: string | number;
+
+  /** Forum topic id (message_thread_id) */
+  messageThreadId?: number;
+
+  /** Bot API base URL (default: https://api.telegram.org) */
+  baseUrl?: string;
+
+  /** Send silently */
+  disableNotification?: boolean;
+
+  /** Channel name used as a routing target */
+  name?: string;
+
+  /** Rewrite or drop (return null) notifications for this channel only */
+  beforeSend?: EventProcessor;
+}
+
+/**
+ * PagerDuty Events API v2 severity
+ */
+export type PagerDutySeverity = 'critical' | 'error' | 'warning' | 'info';
+
+/**
+ * PagerDuty incident provider configuration
+ */
+export interface PagerDutyConfig {
+  /** Integration (routing) key of the Events API v2 integration */
+  routingKey: string;
+
+  /** Events API endpoint (default: https://events.pagerduty.com/v2/enqueue) */
+  endpoint?: string;
+
+  /** Minimum severity that triggers an incident (default: error) */
+  minSeverity?: ErrorSeverity;
+
+  /** Override the ErrorSeverity to PagerDuty severity mapping */
+  severityMap?: Partial<Record<ErrorSeverity, PagerDutySeverity>>;
+
+  /** Event source (default: environment or "error-logger") */
+  source?: string;
+
+  /** Component responsible for the event */
+  component?: string;
+
+  /** Logical grouping of components */
+  group?: string;
+
+  /** Class/type of the event */
+  class?: string;
+
+  /** Channel name used as a routing target */
+  name?: string;
+
+  /** Rewrite or drop (return null) notifications for this channel only */
+  beforeSend?: EventProcessor;
+}
+
+/**
+ * Generic HTTP webhook provider configuration
+ */
+export interface WebhookConfig {
+  /** Target URL */
+  url: string;
+
+  /** HTTP method (default: POST) */
+  method?: 'POST' | 'PUT' | 'PATCH';
+
+  /** Additional request headers */
+  headers?: Record<string, string>;
+
+  /**
+   * JSON body template. Strings may contain `{{field}}` placeholders for any
+   * ErrorNotification field or path (e.g. `{{metadata.userId}}`); a string that
+   * is exactly one placeholder is replaced with the raw value.
+   * Defaults to the notification itself.
+   */
+  bodyTemplate?: unknown;
+
+  /** HMAC-SHA256 request signing */
+  signing?: {
+    /** Shared secret */
+    secret: string;
+
+    /** Signature header (default: X-Signature) */
+    header?: string;
+
+    /** Timestamp header (default: X-Signature-Timestamp) */
+    timestampHeader?: string;
+  };
+
+  /** Channel name used as a routing target */
+  name?: string;
+
+  /** Rewrite or drop (return null) notifications for this channel only */
+  beforeSend?: EventProcessor;
+}
+
+/**
+ * SMS provider configuration (Twilio-compatible Messages API)
+ */
+export interface SmsConfig {
+  /** Account SID used in the API path and as basic auth username */
+  accountSid: string;
+
+  /** Auth token used as basic auth password */
+  authToken: string;
+
+  /** Sender phone number (E.164) */
+  from: string;
+
+  /** Recipient phone numbers (E.164) */
+  to: string[];
+
+  /** API base URL (default: https://api.twilio.com) */
+  baseUrl?: string;
+
+  /** Minimum severity that triggers a text (default: error) */
+  minSeverity?: ErrorSeverity;
+
+  /** Only send in these environments (default: all) */
+  environments?: string[];
+
+  /** Channel name used as a routing target */
+  name?: string;
+
+  /** Rewrite or drop (return null) notifications for this channel only */
+  beforeSend?: EventProcessor;
+}
+
+/**
+ * Email provider configuration (SMTP)
+ */
+export interface EmailConfig {
+  /** SMTP server host */
+  host: string;
+
+  /** SMTP server port (default: 465 when secure, otherwise 587) */
+  port?: number;
+
+  /** Connect over implicit TLS */
+  secure?: boolean;
+
+  /** STARTTLS behaviour (default: opportunistic) */
+  startTls?: 'opportunistic' | 'required' | 'disabled';
+
+  /** SMTP credentials */
+  auth?: {
+    user: string;
+    pass: string;
+  };
+
+  /** Verify the server certificate (default: true) */
+  rejectUnauthorized?: boolean;
+
+  /** Sender address */
+  from: string;
+
+  /** Recipient addresses */
+  to: string[];
+
+  /** Carbon copy addresses */
+  cc?: string[];
+
+  /** Prefix added to the subject line */
+  subjectPrefix?: string;
+
+  /** Minimum severity that triggers an email (default: info) */
+  minSeverity?: ErrorSeverity;
+
+  /** Channel name used as a routing target */
+  name?: string;
+
+  /** Rewrite or drop (return null) notifications for this channel only */
+  beforeSend?: EventProcessor;
+}
+
+/**
+ * Conditions a notification must satisfy for a routing rule to apply.
+ * All specified conditions must match.
+ */
+export interface RoutingMatch {
+  /** Exact severity or list of severities */
+  severity?: ErrorSeverity | ErrorSeverity[];
+
+  /** Minimum severity (inclusive) */
+  minSeverity?: ErrorSeverity;
+
+  /** Environment name or list of environment names */
+  environment?: string | string[];
+
+  /** Regex (or regex source) tested against the message */
+  message?: string | RegExp;
+
+  /** Metadata keys that must be present */
+  metadataKeys?: string[];
+
+  /**
+   * Metadata values keyed by property path (e.g. `user.plan`).
+   * Primitives are compared for equality, arrays match any element,
+   * and regexes are tested against the stringified value.
+   */
+  metadata?: Record<string, string | number | boolean | RegExp | Array<string | number | boolean>>;
+}
+
+/**
+ * Routing rule selecting which providers or channels receive a notification
+ */
+export interface RoutingRule {
+  /** Rule name for debugging */
+  name?: string;
+
+  /** Match conditions (an empty object matches everything) */
+  match: RoutingMatch;
+
+  /** Provider names (`discord`, `slack`) or channel names */
+  targets: string[];
+
+  /** Stop evaluating further rules when this one matches */
+  stop?: boolean;
+}
+
+/**
+ * Notification routing configuration
+ */
+export interface RoutingConfig {
+  /** Rules evaluated in order; targets of all matching rules are combined */
+  rules: RoutingRule[];
+
+  /** Targets used when no rule matches (defaults to every provider) */
+  defaultTargets?: string[];
 }
 
 /**
  * Complete error logger configuration
  */
 export interface NotificationConfig {
-  /** Discord webhook configuration */
-  discord?: DiscordConfig;
+  /** Discord webhook configuration (one or more named channels) */
+  discord?: DiscordConfig | DiscordConfig[];
+
+  /** Slack webhook configuration (one or more named channels) */
+  slack?: SlackConfig | SlackConfig[];
+
+  /** Microsoft Teams webhook configuration */
+  teams?: TeamsConfig;
+
+  /** Telegram bot configuration */
+  telegram?: TelegramConfig;
+
+  /** PagerDuty incident configuration */
+  pagerduty?: PagerDutyConfig;
+
+  /** Generic HTTP webhook configuration */
+  webhook?: WebhookConfig;
 
-  /** Slack webhook configuration */
-  slack?: SlackConfig;
+  /** SMS configuration */
+  sms?: SmsConfig;
+
+  /** Email (SMTP) configuration */
+  email?: EmailConfig;
 
   /** Retry policy (defaults provided) */
   retry?: Partial<RetryPolicy>;
@@ -112,6 +825,51 @@ export interface NotificationConfig {
   /** Sanitization rules (defaults provided) */
   sanitization?: Partial<SanitizationConfig>;
 
+  /** Severity/environment based routing (all providers by default) */
+  routing?: RoutingConfig;
+
+  /** Fingerprint-based duplicate suppression (disabled by default) */
+  deduplication?: Partial<DeduplicationConfig>;
+
+  /** Per-webhook rate limiting (defaults provided) */
+  rateLimit?: Partial<RateLimitConfig>;
+
+  /** Breadcrumb trail attached to exceptions (automatic instrumentation off by default) */
+  breadcrumbs?: Partial<BreadcrumbConfig>;
+
+  /** Periodic summaries for low-severity traffic (disabled by default) */
+  digest?: Partial<DigestConfig>;
+
+  /** On-disk outbox for failed deliveries (disabled by default) */
+  outbox?: Partial<OutboxConfig>;
+
+  /** Processors run in order on sanitized notifications; null drops the notification */
+  eventProcessors?: EventProcessor[];
+
+  /** Last processor, run after eventProcessors */
+  beforeSend?: EventProcessor;
+
+  /** Fraction (0-1) of notifications sent per severity (default: 1) */
+  sampleRates?: Partial<Record<ErrorSeverity, number>>;
+
+  /** Dynamic sampling; takes precedence over sampleRates */
+  sampler?: Sampler;
+
+  /** Drop errors whose message or type matches (strings match substrings) */
+  ignoreErrors?: Array<string | RegExp>;
+
+  /** Drop notifications from matching page URLs */
+  denyUrls?: Array<string | RegExp>;
+
+  /** Only send notifications from matching page URLs (notifications without a URL are kept) */
+  allowUrls?: Array<string | RegExp>;
+
+  /** Custom provider instances */
+  providers?: NotificationProvider[];
+
+  /** Options for providers registered via ErrorLogger.registerProvider, keyed by name */
+  providerOptions?: Record<string, unknown>;
+
   /** Manual environment override */
   environment?: string;
 
@@ -140,33 +898,112 @@ export interface NotificationProvider {
    * Get provider name for logging
    */
   getName(): string;
+
+  /**
+   * Get the configured channel name, if any
+   */
+  getChannel?(): string | undefined;
+
+  /**
+   * Whether this provider wants the notification (e.g. minimum severity)
+   * Notifications that are not accepted are counted as skipped.
+   */
+  accepts?(notification: ErrorNotification): boolean;
+
+  /**
+   * Resolve a previously triggered incident (incident providers only)
+   * @param dedupKey - Fingerprint of the notification that opened the incident
+   */
+  resolve?(dedupKey: string): Promise<void>;
+
+  /**
+   * Build a fire-and-forget request for delivery while the page unloads (browser only)
+   * @returns undefined if the provider cannot deliver this way
+   */
+  createBeaconRequest?(notification: ErrorNotification): BeaconRequest | undefined;
+}
+
+/**
+ * Request delivered with `fetch(..., { keepalive: true })` or `navigator.sendBeacon`
+ */
+export interface BeaconRequest {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Delivery counters for a single provider channel
+ */
+export interface ChannelStats {
+  /** Channel key (`<provider>:<channel name or index>`) */
+  channel: string;
+
+  /** Provider name */
+  provider: string;
+
+  /** Notifications delivered */
+  sent: number;
+
+  /** Notifications that failed after all retries */
+  failed: number;
+
+  /** Retry attempts */
+  retries: number;
+
+  /** Notifications not accepted by the channel (e.g. below minimum severity) */
+  skipped: number;
 }
 
+/**
+ * Shared services handed to provider factories
+ */
+export interface ProviderFactoryContext {
+  /** Retry manager dedicated to the provider channel being created */
+  retryManager: RetryManager;
+
+  /** Per-webhook rate limiters (undefined when rate limiting is disabled) */
+  rateLimiters?: RateLimiterPool;
+}
+
+/**
+ * Creates a provider from its options
+ */
+export type ProviderFactory<TOptions = any> = (
+  options: TOptions,
+  context: ProviderFactoryContext
+) => NotificationProvider;
+
 /**
  * Main ErrorLogger class contract
  */
 export interface IErrorLogger {
   /**
    * Capture and send an exception
-   * @param error - Error object or error message string
+   * @param error - Error object, error message string or any other thrown value
    * @param metadata - Additional context metadata
+   * @param level - Severity level (defaults to error)
+   * @returns the notification id and the outcome on every channel
    */
   captureException(
-    error: Error | string,
-    metadata?: Record<string, any>
-  ): Promise<void>;
+    error: unknown,
+    metadata?: Record<string, any>,
+    level?: ErrorSeverity
+  ): Promise<DeliveryReport>;
 
   /**
    * Capture and send a message
    * @param message - Message content
    * @param level - Severity level
    * @param metadata - Additional context metadata
+   * @returns the notification id and the outcome on every channel
    */
   captureMessage(
     message: string,
     level?: ErrorSeverity,
     metadata?: Record<string, any>
-  ): Promise<void>;
+  ): Promise<DeliveryReport>;
 
   /**
    * Update configuration at runtime
@@ -179,4 +1016,26 @@ export interface IErrorLogger {
    * @param environment - Environment name
    */
   setEnvironment(environment: string): void;
+
+  // resolve, flush and close are optional so existing implementations keep compiling
+
+  /**
+   * Resolve an incident opened by an earlier notification
+   * @param key - Notification fingerprint (dedup key)
+   */
+  resolve?(key: string): Promise<void>;
+
+  /**
+   * Wait for pending sends to settle
+   * @param timeoutMs - Maximum time to wait
+   * @returns true if everything was delivered in time
+   */
+  flush?(timeoutMs?: number): Promise<boolean>;
+
+  /**
+   * Flush, then stop accepting notifications and release timers and handlers
+   * @param timeoutMs - Maximum time to wait for the final flush
+   * @returns true if everything was delivered in time
+   */
+  close?(timeoutMs?: number): Promise<boolean>;
 }
@@ -0,0 +1,37 @@
+import type { BeaconRequest } from '../types/index.js';
+
+/**
+ * Hand a request to the browser so it completes after the page is gone.
+ * `fetch` with `keepalive` is preferred because it keeps the method and headers;
+ * `navigator.sendBeacon` (POST only, no custom headers) is the fallback.
+ * @returns true if the browser accepted the request
+ */
+export function sendBeacon(request: BeaconRequest): boolean {
+  const method = request.method ?? 'POST';
+  const headers = { 'Content-Type': 'application/json', ...request.headers };
+  const fetchFn = (globalThis as any).fetch;
+
+  if (typeof fetchFn === 'function') {
+    try {
+      const pending = fetchFn(request.url, { method, headers, body: request.body, keepalive: true });
+      // Nobody is left to handle a failure once the page is gone
+      pending?.catch?.(() => undefined);
+      return true;
+    } catch {
+      // Fall through to sendBeacon
+    }
+  }
+
+  // sendBeacon would silently drop auth or signature headers
+  const customHeaders = Object.keys(request.headers ?? {}).some(name => name.toLowerCase() !== 'content-type');
+  const navigator = (globalThis as any).navigator;
+  if (method === 'POST' && !customHeaders && typeof navigator?.sendBeacon === 'function') {
+    try {
+      return navigator.sendBeacon(request.url, new Blob([request.body], { type: headers['Content-Type'] }));
+    } catch {
+      return false;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,57 @@
+import type { Breadcrumb } from '../types/index.js';
+
+/**
+ * Fixed-size ring buffer; the oldest breadcrumb is overwritten when full
+ */
+export class BreadcrumbBuffer {
+  private entries: Array<Breadcrumb | undefined>;
+  private next: number = 0;
+  private count: number = 0;
+
+  constructor(maxSize: number) {
+    this.entries = new Array(maxSize);
+  }
+
+  add(breadcrumb: Breadcrumb): void {
+    if (this.entries.length === 0) {
+      return;
+    }
+
+    this.entries[this.next] = breadcrumb;
+    this.next = (this.next + 1) % this.entries.length;
+    this.count = Math.min(this.count + 1, this.entries.length);
+  }
+
+  /**
+   * Breadcrumbs oldest first
+   */
+  getAll(): Breadcrumb[] {
+    const start = (this.next - this.count + this.entries.length) % (this.entries.length || 1);
+    const result: Breadcrumb[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.entries[(start + i) % this.entries.length]!);
+    }
+    return result;
+  }
+
+  /**
+   * Change the capacity, keeping the most recent breadcrumbs
+   */
+  resize(maxSize: number): void {
+    if (maxSize === this.entries.length) {
+      return;
+    }
+
+    const kept = maxSize > 0 ? this.getAll().slice(-maxSize) : [];
+    this.entries = new Array(maxSize);
+    this.next = 0;
+    this.count = 0;
+    kept.forEach(breadcrumb => this.add(breadcrumb));
+  }
+
+  clear(): void {
+    this.entries = new Array(this.entries.length);
+    this.next = 0;
+    this.count = 0;
+  }
+}
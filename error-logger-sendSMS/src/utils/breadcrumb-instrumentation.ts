@@ -0,0 +1,322 @@
+import type { Breadcrumb, ErrorSeverity } from '../types/index.js';
+
+/**
+ * Instrumentation that records breadcrumbs by wrapping globals.
+ * Each installer returns an uninstall function. Wrappers stay transparent after
+ * uninstall if something else wrapped them in the meantime.
+ */
+
+export type RecordBreadcrumb = (breadcrumb: Omit<Breadcrumb, 'timestamp'>) => void;
+
+export type UrlFilter = (url: string) => boolean;
+
+const CONSOLE_LEVELS: Record<string, ErrorSeverity> = {
+  debug: 'info',
+  log: 'info',
+  info: 'info',
+  warn: 'warning',
+  error: 'error'
+};
+
+const MAX_MESSAGE_LENGTH = 300;
+
+/**
+ * Hosts of the built-in providers; the logger's own sends are never recorded
+ */
+const NOTIFICATION_ENDPOINTS: RegExp[] = [
+  /discord(app)?\.com\/api\/webhooks/,
+  /hooks\.slack\.com/,
+  /\.webhook\.office\.com/,
+  /\.logic\.azure\.com/,
+  /api\.telegram\.org/,
+  /events\.pagerduty\.com/,
+  /api\.twilio\.com/
+];
+
+/**
+ * Tags the logger prefixes its own console output with, besides provider names
+ */
+const LOGGER_TAGS = ['ErrorLogger', 'Outbox'];
+
+/**
+ * Build a filter that rejects notification endpoints and the given patterns
+ */
+export function createUrlFilter(ignoreUrls: Array<string | RegExp> = []): UrlFilter {
+  const patterns = [...NOTIFICATION_ENDPOINTS, ...ignoreUrls];
+  return (url: string) => !patterns.some(pattern =>
+    typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url)
+  );
+}
+
+/**
+ * @param providerNames - Names of the configured providers; messages tagged with
+ * them (`[Discord] Retry attempt ...`) are the logger's own and are not recorded
+ */
+export function instrumentConsole(record: RecordBreadcrumb, providerNames: string[] = []): () => void {
+  const target = console as any;
+  const restores: Array<() => void> = [];
+  const ownPrefixes = [...LOGGER_TAGS, ...providerNames].map(tag => `[${tag}]`);
+  const isOwnMessage = (args: unknown[]) =>
+    typeof args[0] === 'string' && ownPrefixes.some(prefix => (args[0] as string).startsWith(prefix));
+
+  for (const [method, level] of Object.entries(CONSOLE_LEVELS)) {
+    const original = target[method];
+    if (typeof original !== 'function') {
+      continue;
+    }
+
+    let active = true;
+    const wrapper = function (this: unknown, ...args: unknown[]) {
+      if (active && !isOwnMessage(args)) {
+        record({
+          category: 'console',
+          level,
+          message: truncate(args.map(formatConsoleArg).join(' ')),
+          data: { method }
+        });
+      }
+      return original.apply(this, args);
+    };
+
+    target[method] = wrapper;
+    restores.push(() => {
+      active = false;
+      if (target[method] === wrapper) {
+        target[method] = original;
+      }
+    });
+  }
+
+  return () => restores.forEach(restore => restore());
+}
+
+export function instrumentFetch(record: RecordBreadcrumb, shouldRecord: UrlFilter): () => void {
+  const g = globalThis as any;
+  const restores: Array<() => void> = [];
+
+  if (typeof g.fetch === 'function') {
+    const original = g.fetch;
+    let active = true;
+
+    const wrapper = function (this: unknown, input: any, init?: any) {
+      const result = original.call(this, input, init);
+      const url = typeof input === 'string' ? input : input?.url ?? String(input);
+      if (!active || !shouldRecord(url)) {
+        return result;
+      }
+
+      const method = String(init?.method ?? input?.method ?? 'GET').toUpperCase();
+      const start = Date.now();
+      return result.then(
+        (response: any) => {
+          record(httpBreadcrumb('fetch', method, url, response?.status, start));
+          return response;
+        },
+        (error: any) => {
+          record(httpBreadcrumb('fetch', method, url, undefined, start, error));
+          throw error;
+        }
+      );
+    };
+
+    g.fetch = wrapper;
+    restores.push(() => {
+      active = false;
+      if (g.fetch === wrapper) {
+        g.fetch = original;
+      }
+    });
+  }
+
+  const proto = g.XMLHttpRequest?.prototype;
+  if (proto && typeof proto.open === 'function' && typeof proto.send === 'function') {
+    const originalOpen = proto.open;
+    const originalSend = proto.send;
+    const requests = new WeakMap<object, { method: string; url: string }>();
+    let active = true;
+
+    const open = function (this: any, method: string, url: string | URL, ...rest: unknown[]) {
+      requests.set(this, { method: String(method).toUpperCase(), url: String(url) });
+      return originalOpen.call(this, method, url, ...rest);
+    };
+
+    const send = function (this: any, ...args: unknown[]) {
+      const request = requests.get(this);
+      if (active && request && shouldRecord(request.url)) {
+        const start = Date.now();
+        this.addEventListener('loadend', () => {
+          // status 0 means the request never got a response (network error, abort, CORS)
+          const status = this.status || undefined;
+          const error = status ? undefined : new Error('Network error');
+          record(httpBreadcrumb('xhr', request.method, request.url, status, start, error));
+        });
+      }
+      return originalSend.apply(this, args);
+    };
+
+    proto.open = open;
+    proto.send = send;
+    restores.push(() => {
+      active = false;
+      if (proto.open === open) {
+        proto.open = originalOpen;
+      }
+      if (proto.send === send) {
+        proto.send = originalSend;
+      }
+    });
+  }
+
+  return () => restores.forEach(restore => restore());
+}
+
+/**
+ * Node modules are loaded lazily so browser bundles don't pull them in
+ */
+export async function instrumentHttp(record: RecordBreadcrumb, shouldRecord: UrlFilter): Promise<() => void> {
+  const { syncBuiltinESMExports } = await import('node:module');
+  const modules: any[] = [(await import('node:http')).default, (await import('node:https')).default];
+  const restores: Array<() => void> = [];
+
+  for (const mod of modules) {
+    // http.get calls the module-internal request, so wrapping both never records twice
+    for (const name of ['request', 'get']) {
+      const original = mod[name];
+      let active = true;
+
+      const wrapper = function (this: unknown, ...args: unknown[]) {
+        const req = original.apply(this, args);
+        if (!active) {
+          return req;
+        }
+
+        const url = `${req.protocol ?? ''}//${req.host ?? ''}${req.path ?? ''}`;
+        if (!shouldRecord(url)) {
+          return req;
+        }
+
+        const method = String(req.method ?? 'GET').toUpperCase();
+        const start = Date.now();
+        req.once('response', (res: any) => {
+          record(httpBreadcrumb('http', method, url, res.statusCode, start));
+        });
+        req.once('error', (error: Error) => {
+          record(httpBreadcrumb('http', method, url, undefined, start, error));
+        });
+        return req;
+      };
+
+      mod[name] = wrapper;
+      restores.push(() => {
+        active = false;
+        if (mod[name] === wrapper) {
+          mod[name] = original;
+        }
+      });
+    }
+  }
+
+  // Make `import { request } from 'node:http'` see the wrappers too
+  syncBuiltinESMExports();
+
+  return () => {
+    restores.forEach(restore => restore());
+    syncBuiltinESMExports();
+  };
+}
+
+export function instrumentNavigation(record: RecordBreadcrumb): () => void {
+  const win = (globalThis as any).window;
+  const history = win?.history;
+  if (!history || typeof history.pushState !== 'function') {
+    return () => {};
+  }
+
+  let from = stripQuery(win.location.href);
+  let active = true;
+  const onChange = () => {
+    const to = stripQuery(win.location.href);
+    if (active && to !== from) {
+      record({ category: 'navigation', message: `${from} → ${to}`, data: { from, to } });
+    }
+    from = to;
+  };
+
+  const restores: Array<() => void> = [];
+  for (const name of ['pushState', 'replaceState']) {
+    const original = history[name];
+    const wrapper = function (this: unknown, ...args: unknown[]) {
+      const result = original.apply(this, args);
+      onChange();
+      return result;
+    };
+
+    history[name] = wrapper;
+    restores.push(() => {
+      if (history[name] === wrapper) {
+        history[name] = original;
+      }
+    });
+  }
+
+  win.addEventListener('popstate', onChange);
+
+  return () => {
+    active = false;
+    restores.forEach(restore => restore());
+    win.removeEventListener('popstate', onChange);
+  };
+}
+
+function httpBreadcrumb(
+  category: string,
+  method: string,
+  rawUrl: string,
+  status: number | undefined,
+  start: number,
+  error?: Error
+): Omit<Breadcrumb, 'timestamp'> {
+  const url = stripQuery(rawUrl);
+  const durationMs = Date.now() - start;
+
+  if (status === undefined) {
+    return {
+      category,
+      level: 'error',
+      message: truncate(`${method} ${url} failed: ${error?.message ?? 'no response'}`),
+      data: { method, url, durationMs }
+    };
+  }
+
+  return {
+    category,
+    level: status >= 500 ? 'error' : status >= 400 ? 'warning' : 'info',
+    message: truncate(`${method} ${url} → ${status} (${durationMs} ms)`),
+    data: { method, url, statusCode: status, durationMs }
+  };
+}
+
+/**
+ * Query strings often carry tokens; keep only origin and path
+ */
+function stripQuery(url: string): string {
+  return url.split(/[?#]/)[0];
+}
+
+function formatConsoleArg(arg: unknown): string {
+  if (typeof arg === 'string') {
+    return arg;
+  }
+  if (arg instanceof Error) {
+    return `${arg.name}: ${arg.message}`;
+  }
+  try {
+    return JSON.stringify(arg) ?? String(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_MESSAGE_LENGTH ? value.substring(0, MAX_MESSAGE_LENGTH - 3) + '...' : value;
+}
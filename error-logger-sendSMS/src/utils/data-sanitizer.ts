@@ -1,37 +1,63 @@
-import type { SanitizationConfig } from '../types/index.js';
+import type { DefaultPatternName, MaskingStrategy, SanitizationConfig } from '../types/index.js';
+import { hmacSha256Hex } from './hmac.js';
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Hex characters of the HMAC kept in the output; enough to correlate events
+ */
+const HASH_LENGTH = 16;
 
 export class DataSanitizer {
   private config: SanitizationConfig;
-  private defaultPatterns: RegExp[];
+  private defaultPatterns: Array<{ name: DefaultPatternName; pattern: RegExp }>;
+  private keyStrategies: Map<string, MaskingStrategy>;
 
   constructor(config: Partial<SanitizationConfig> = {}) {
     this.config = {
       enabled: config.enabled ?? true,
       customPatterns: config.customPatterns,
-      excludeDefaults: config.excludeDefaults ?? false
+      excludeDefaults: config.excludeDefaults ?? false,
+      strategy: config.strategy,
+      patternStrategies: config.patternStrategies,
+      keyStrategies: config.keyStrategies,
+      hashKey: config.hashKey
     };
 
     this.defaultPatterns = [
-      /password|passwd|pwd/gi,
-      /token|bearer|jwt|api[_-]?key/gi,
-      /secret|private[_-]?key/gi,
-      /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-      /\b\d{4}[- ]?\d{4}[- ]?\d{4}[- ]?\d{4}\b/g,
-      /\b\d{3}-\d{2}-\d{4}\b/g
+      { name: 'password', pattern: /password|passwd|pwd/gi },
+      { name: 'token', pattern: /token|bearer|jwt|api[_-]?key/gi },
+      { name: 'secret', pattern: /secret|private[_-]?key/gi },
+      { name: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g },
+      { name: 'creditCard', pattern: /\b\d{4}[- ]?\d{4}[- ]?\d{4}[- ]?\d{4}\b/g },
+      { name: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g }
     ];
+
+    // Keys and paths are matched case-insensitively
+    this.keyStrategies = new Map(
+      Object.entries(config.keyStrategies ?? {}).map(([key, strategy]) => [key.toLowerCase(), strategy])
+    );
   }
 
-  sanitize(data: any): any {
+  /**
+   * @param path - Key path of the data within a notification, so key-path
+   * strategies match data sanitized on its own (e.g. `breadcrumbs`)
+   */
+  sanitize(data: any, path: string = ''): any {
     if (!this.config.enabled) {
       return data;
     }
 
+    return this.sanitizeValue(data, path);
+  }
+
+  private sanitizeValue(data: any, path: string): any {
     if (typeof data === 'string') {
       return this.sanitizeString(data);
     }
 
     if (typeof data === 'object' && data !== null) {
-      return this.sanitizeObject(data);
+      return this.sanitizeObject(data, path);
     }
 
     return data;
@@ -44,64 +70,133 @@ export class DataSanitizer {
     if (this.config.customPatterns) {
       this.config.customPatterns.forEach(pattern => {
         const regex = new RegExp(pattern, 'gi');
-        result = result.replace(regex, '[REDACTED]');
+        const strategy = this.getPatternStrategy(pattern);
+        result = result.replace(regex, match => this.maskString(match, strategy));
       });
     }
 
     // Apply default patterns unless excluded
     if (!this.config.excludeDefaults) {
-      this.defaultPatterns.forEach(pattern => {
-        result = result.replace(pattern, '[REDACTED]');
+      this.defaultPatterns.forEach(({ name, pattern }) => {
+        const strategy = this.getPatternStrategy(name);
+        result = result.replace(pattern, match => this.maskString(match, strategy));
       });
     }
 
     return result;
   }
 
-  private sanitizeObject(obj: any): any {
+  private sanitizeObject(obj: any, path: string): any {
     if (Array.isArray(obj)) {
-      return obj.map(item => this.sanitize(item));
+      return obj.map(item => this.sanitizeValue(item, path));
     }
 
     const result: any = {};
     for (const [key, value] of Object.entries(obj)) {
-      // Check if key matches sensitive patterns - if so, redact the value
-      const keyMatches = this.keyMatchesSensitivePattern(key);
-      if (keyMatches) {
-        result[key] = '[REDACTED]';
+      const keyPath = path ? `${path}.${key}` : key;
+
+      // Check if key matches sensitive patterns - if so, mask the value
+      const strategy = this.getKeyStrategy(key, keyPath);
+      if (strategy === 'remove') {
+        continue;
+      }
+      if (strategy) {
+        result[key] = this.maskValue(value, strategy);
       } else {
         // Sanitize the value recursively
-        result[key] = this.sanitize(value);
+        result[key] = this.sanitizeValue(value, keyPath);
       }
     }
     return result;
   }
 
-  private keyMatchesSensitivePattern(key: string): boolean {
+  /**
+   * @returns the strategy for a sensitive key, or undefined if the key is not sensitive
+   */
+  private getKeyStrategy(key: string, path: string): MaskingStrategy | undefined {
+    const configured = this.keyStrategies.get(path.toLowerCase()) ?? this.keyStrategies.get(key.toLowerCase());
+    if (configured) {
+      return configured;
+    }
+
+    const pattern = this.findSensitiveKeyPattern(key);
+    return pattern !== undefined ? this.getPatternStrategy(pattern) : undefined;
+  }
+
+  /**
+   * @returns the custom pattern string or default pattern name matching the key
+   */
+  private findSensitiveKeyPattern(key: string): string | undefined {
     // Check custom patterns
     if (this.config.customPatterns) {
       for (const pattern of this.config.customPatterns) {
         if (new RegExp(pattern, 'i').test(key)) {
-          return true;
+          return pattern;
         }
       }
     }
 
     // Check default patterns unless excluded
     if (!this.config.excludeDefaults) {
-      const sensitiveKeyPatterns = [
-        /password|passwd|pwd/i,
-        /token|bearer|jwt|api[_-]?key/i,
-        /secret|private[_-]?key/i
+      const sensitiveKeyPatterns: Array<[DefaultPatternName, RegExp]> = [
+        ['password', /password|passwd|pwd/i],
+        ['token', /token|bearer|jwt|api[_-]?key/i],
+        ['secret', /secret|private[_-]?key/i]
       ];
 
-      for (const pattern of sensitiveKeyPatterns) {
+      for (const [name, pattern] of sensitiveKeyPatterns) {
         if (pattern.test(key)) {
-          return true;
+          return name;
         }
       }
     }
 
-    return false;
+    return undefined;
+  }
+
+  private getPatternStrategy(pattern: string): MaskingStrategy {
+    return this.config.patternStrategies?.[pattern] ?? this.config.strategy ?? 'redact';
+  }
+
+  /**
+   * Mask a whole value under a sensitive key. Partial masks only apply to
+   * primitives; nested objects are redacted rather than revealed in part.
+   */
+  private maskValue(value: unknown, strategy: MaskingStrategy): unknown {
+    if (strategy === 'hash' && typeof value === 'object' && value !== null) {
+      return this.maskString(JSON.stringify(value) ?? '', strategy);
+    }
+    if (typeof value === 'object' && value !== null || value === undefined) {
+      return REDACTED;
+    }
+    return this.maskString(String(value), strategy);
+  }
+
+  private maskString(value: string, strategy: MaskingStrategy): string {
+    if (strategy === 'remove') {
+      return '';
+    }
+
+    if (strategy === 'hash') {
+      // Without a key the hash could be brute-forced, so don't reveal anything
+      if (!this.config.hashKey) {
+        return REDACTED;
+      }
+      return `[HMAC:${hmacSha256Hex(this.config.hashKey, value).slice(0, HASH_LENGTH)}]`;
+    }
+
+    if (typeof strategy === 'object') {
+      const keepFirst = strategy.keepFirst ?? 0;
+      const keepLast = strategy.keepLast ?? 0;
+      // Short values would be shown in full, so mask all of them
+      if (keepFirst + keepLast >= value.length) {
+        return '*'.repeat(value.length);
+      }
+      return value.slice(0, keepFirst)
+        + '*'.repeat(value.length - keepFirst - keepLast)
+        + value.slice(value.length - keepLast);
+    }
+
+    return REDACTED;
   }
 }
@@ -0,0 +1,154 @@
+import type { DigestConfig, DigestEntry, ErrorNotification, ErrorSeverity } from '../types/index.js';
+import { mergeDigestConfig } from '../types/defaults.js';
+import { getSeverityRank, isSeverityAtLeast } from './severity.js';
+
+const TOP_VALUES = 5;
+
+export class DigestBuffer {
+  private config: DigestConfig;
+  private entries: Map<string, DigestEntry> = new Map();
+  private environments: Map<string, number> = new Map();
+  private urls: Map<string, number> = new Map();
+  private total: number = 0;
+  private periodStart?: string;
+  private timer?: ReturnType<typeof setTimeout>;
+  private onDigest: (notification: ErrorNotification) => void;
+
+  constructor(
+    config: Partial<DigestConfig> = {},
+    onDigest: (notification: ErrorNotification) => void
+  ) {
+    this.config = mergeDigestConfig(config);
+    this.onDigest = onDigest;
+  }
+
+  updateConfig(config: Partial<DigestConfig> = {}): void {
+    this.config = mergeDigestConfig(config);
+
+    // Nothing may stay buffered once digests are turned off
+    if (!this.config.enabled) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Buffer the notification if it belongs in the digest
+   * @returns true if buffered, false if it should be sent immediately
+   */
+  add(notification: ErrorNotification): boolean {
+    if (!this.config.enabled || isSeverityAtLeast(notification.severity, this.config.severityBelow)) {
+      return false;
+    }
+
+    const existing = this.entries.get(notification.message);
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = notification.timestamp;
+      if (getSeverityRank(notification.severity) > getSeverityRank(existing.severity)) {
+        existing.severity = notification.severity;
+      }
+    } else {
+      this.entries.set(notification.message, {
+        message: notification.message,
+        severity: notification.severity,
+        count: 1,
+        firstSeen: notification.timestamp,
+        lastSeen: notification.timestamp
+      });
+    }
+
+    this.increment(this.environments, notification.environment);
+    this.increment(this.urls, notification.url);
+    this.total++;
+
+    if (!this.timer) {
+      this.periodStart = notification.timestamp;
+      this.timer = setTimeout(() => this.flush(), this.config.intervalMs);
+      (this.timer as any).unref?.();
+    }
+
+    return true;
+  }
+
+  /**
+   * Number of notifications waiting for the next digest
+   */
+  getPendingCount(): number {
+    return this.total;
+  }
+
+  /**
+   * Emit the pending digest, if any
+   */
+  flush(): void {
+    const notification = this.drain();
+    if (notification) {
+      this.onDigest(notification);
+    }
+  }
+
+  /**
+   * Build the pending digest and reset the buffer
+   * @returns the digest notification, or undefined if nothing is buffered
+   */
+  drain(): ErrorNotification | undefined {
+    if (this.total === 0) {
+      this.clear();
+      return undefined;
+    }
+
+    const entries = Array.from(this.entries.values()).sort((a, b) => b.count - a.count);
+    const severity = entries.reduce<ErrorSeverity>(
+      (highest, entry) => getSeverityRank(entry.severity) > getSeverityRank(highest) ? entry.severity : highest,
+      'info'
+    );
+    const environments = this.topValues(this.environments);
+    const now = new Date().toISOString();
+
+    const notification: ErrorNotification = {
+      message: `Digest: ${this.total} notification${this.total === 1 ? '' : 's'}`,
+      severity,
+      timestamp: now,
+      environment: environments.length === 1 ? environments[0].value : undefined,
+      digest: {
+        total: this.total,
+        periodStart: this.periodStart ?? now,
+        periodEnd: now,
+        entries,
+        environments,
+        urls: this.topValues(this.urls)
+      }
+    };
+
+    this.clear();
+    return notification;
+  }
+
+  /**
+   * Drop buffered notifications without emitting a digest
+   */
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.entries.clear();
+    this.environments.clear();
+    this.urls.clear();
+    this.total = 0;
+    this.periodStart = undefined;
+  }
+
+  private increment(counts: Map<string, number>, value?: string): void {
+    if (value) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  private topValues(counts: Map<string, number>): Array<{ value: string; count: number }> {
+    return Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_VALUES);
+  }
+}
@@ -0,0 +1,130 @@
+import type { DeduplicationConfig, ErrorNotification } from '../types/index.js';
+import { mergeDeduplicationConfig } from '../types/defaults.js';
+import { computeFingerprint } from './fingerprint.js';
+
+interface ErrorGroup {
+  notification: ErrorNotification;
+  firstSeen: string;
+  lastSeen: string;
+  suppressed: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class ErrorGrouper {
+  private config: DeduplicationConfig;
+  private groups: Map<string, ErrorGroup> = new Map();
+  private onSummary: (notification: ErrorNotification) => void;
+
+  constructor(
+    config: Partial<DeduplicationConfig> = {},
+    onSummary: (notification: ErrorNotification) => void
+  ) {
+    this.config = mergeDeduplicationConfig(config);
+    this.onSummary = onSummary;
+  }
+
+  updateConfig(config: Partial<DeduplicationConfig> = {}): void {
+    this.config = mergeDeduplicationConfig(config);
+  }
+
+  fingerprint(notification: ErrorNotification): string {
+    return computeFingerprint(notification, this.config.stackFrames);
+  }
+
+  /**
+   * Record an occurrence of the notification's fingerprint
+   * @returns true if the notification should be sent, false if it is a suppressed repeat
+   */
+  track(notification: ErrorNotification): boolean {
+    if (!this.config.enabled || !notification.fingerprint) {
+      return true;
+    }
+
+    const existing = this.groups.get(notification.fingerprint);
+    if (existing) {
+      existing.suppressed++;
+      existing.lastSeen = notification.timestamp;
+      return false;
+    }
+
+    const fingerprint = notification.fingerprint;
+    const timer = setTimeout(() => this.closeGroup(fingerprint), this.config.windowMs);
+    (timer as any).unref?.();
+
+    this.groups.set(fingerprint, {
+      notification,
+      firstSeen: notification.timestamp,
+      lastSeen: notification.timestamp,
+      suppressed: 0,
+      timer
+    });
+
+    return true;
+  }
+
+  /**
+   * Number of repeats currently suppressed for a fingerprint
+   */
+  getSuppressedCount(fingerprint: string): number {
+    return this.groups.get(fingerprint)?.suppressed ?? 0;
+  }
+
+  /**
+   * Close all open groups and return pending summaries instead of emitting them
+   */
+  drain(): ErrorNotification[] {
+    const summaries: ErrorNotification[] = [];
+    for (const fingerprint of Array.from(this.groups.keys())) {
+      const summary = this.removeGroup(fingerprint);
+      if (summary) {
+        summaries.push(summary);
+      }
+    }
+    return summaries;
+  }
+
+  /**
+   * Drop all groups without emitting summaries
+   */
+  clear(): void {
+    this.groups.forEach(group => clearTimeout(group.timer));
+    this.groups.clear();
+  }
+
+  private closeGroup(fingerprint: string): void {
+    const summary = this.removeGroup(fingerprint);
+    if (summary) {
+      this.onSummary(summary);
+    }
+  }
+
+  /**
+   * @returns the follow-up summary, or undefined if no repeats were suppressed
+   */
+  private removeGroup(fingerprint: string): ErrorNotification | undefined {
+    const group = this.groups.get(fingerprint);
+    if (!group) {
+      return undefined;
+    }
+
+    clearTimeout(group.timer);
+    this.groups.delete(fingerprint);
+
+    if (group.suppressed === 0) {
+      return undefined;
+    }
+
+    // The summary is a separate delivery, so it gets its own id when delivered
+    const { id: _id, ...notification } = group.notification;
+    return {
+      ...notification,
+      timestamp: new Date().toISOString(),
+      occurrences: {
+        count: group.suppressed,
+        windowMs: this.config.windowMs,
+        firstSeen: group.firstSeen,
+        lastSeen: group.lastSeen
+      }
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import type { ErrorDetails } from '../types/index.js';
+import { anonymizeStack, parseStack } from './stack-parser.js';
+
+const MAX_CAUSES = 5;
+const MAX_AGGREGATED_ERRORS = 10;
+const MAX_PROPERTIES = 10;
+const MAX_VALUE_LENGTH = 200;
+
+/**
+ * Read even when inherited or non-enumerable, as some libraries define them on prototypes
+ */
+const KNOWN_PROPERTIES = ['code', 'errno', 'syscall', 'statusCode', 'status'];
+
+const STANDARD_PROPERTIES = new Set(['name', 'message', 'stack', 'cause', 'errors']);
+
+export interface NormalizedError {
+  error: ErrorDetails;
+
+  /** `cause` chain, direct cause first; cycles are cut */
+  causes: ErrorDetails[];
+
+  /** `AggregateError.errors` */
+  errors: ErrorDetails[];
+}
+
+/**
+ * Describe any thrown value: Errors (including cross-realm ones), strings,
+ * plain objects, numbers, null and undefined. Never throws.
+ */
+export function normalizeError(value: unknown): NormalizedError {
+  const causes: ErrorDetails[] = [];
+  const seen = new Set<unknown>([value]);
+
+  let cause = getCause(value);
+  while (cause.present && causes.length < MAX_CAUSES && !seen.has(cause.value)) {
+    seen.add(cause.value);
+    causes.push(describeValue(cause.value));
+    cause = getCause(cause.value);
+  }
+
+  const aggregated = isObject(value) && Array.isArray(value.errors) ? value.errors : [];
+
+  return {
+    error: describeValue(value),
+    causes,
+    errors: aggregated.slice(0, MAX_AGGREGATED_ERRORS).map(describeValue)
+  };
+}
+
+function describeValue(value: unknown): ErrorDetails {
+  if (typeof value === 'string') {
+    return { message: value };
+  }
+
+  if (value === null || value === undefined) {
+    return { type: String(value), message: String(value) };
+  }
+
+  if (isErrorLike(value)) {
+    const details: ErrorDetails = {
+      type: safeRead(value, 'name') as string || value.constructor?.name || 'Error',
+      message: String(safeRead(value, 'message') ?? '')
+    };
+
+    const stack = safeRead(value, 'stack');
+    if (typeof stack === 'string') {
+      details.stack = anonymizeStack(stack);
+      const frames = parseStack(details.stack);
+      if (frames.length > 0) {
+        details.frames = frames;
+      }
+    }
+
+    const properties = extractProperties(value);
+    if (properties) {
+      details.properties = properties;
+    }
+    return details;
+  }
+
+  if (typeof value === 'object') {
+    const type = (value as any).constructor?.name || 'Object';
+    const message = safeRead(value, 'message');
+    if (typeof message !== 'string') {
+      return { type, message: truncate(stringify(value)) };
+    }
+
+    // `{ message, code }` shaped objects thrown by some libraries
+    const details: ErrorDetails = { type, message };
+    const properties = extractProperties(value);
+    if (properties) {
+      details.properties = properties;
+    }
+    return details;
+  }
+
+  if (typeof value === 'function') {
+    return { type: 'function', message: `[function ${value.name || 'anonymous'}]` };
+  }
+
+  return { type: typeof value, message: String(value) };
+}
+
+function isErrorLike(value: unknown): value is Error {
+  if (value instanceof Error) {
+    return true;
+  }
+  return isObject(value) && typeof safeRead(value, 'message') === 'string' && typeof safeRead(value, 'stack') === 'string';
+}
+
+function getCause(value: unknown): { present: boolean; value?: unknown } {
+  if (!isObject(value) || !('cause' in value)) {
+    return { present: false };
+  }
+  const cause = safeRead(value, 'cause');
+  return cause === undefined ? { present: false } : { present: true, value: cause };
+}
+
+function extractProperties(value: object): Record<string, unknown> | undefined {
+  let ownKeys: string[] = [];
+  try {
+    ownKeys = Object.keys(value);
+  } catch {
+    // Proxies may throw
+  }
+
+  const keys = new Set([...KNOWN_PROPERTIES.filter(key => safeRead(value, key) !== undefined), ...ownKeys]);
+  const properties: Record<string, unknown> = {};
+  let count = 0;
+
+  for (const key of keys) {
+    if (STANDARD_PROPERTIES.has(key) || count >= MAX_PROPERTIES) {
+      continue;
+    }
+
+    const property = safeRead(value, key);
+    if (property === undefined || typeof property === 'function') {
+      continue;
+    }
+
+    properties[key] = toSafeValue(property);
+    count++;
+  }
+
+  return count > 0 ? properties : undefined;
+}
+
+/**
+ * Primitives are kept; anything else becomes a bounded string so that
+ * circular or huge objects can't break serialization
+ */
+function toSafeValue(value: unknown): unknown {
+  if (value === null || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return truncate(value);
+  }
+  if (typeof value === 'bigint' || typeof value === 'symbol') {
+    return value.toString();
+  }
+  return truncate(stringify(value));
+}
+
+function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return `[${(value as any)?.constructor?.name || 'object'}]`;
+  }
+}
+
+function safeRead(value: object, key: string): unknown {
+  try {
+    return (value as any)[key];
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null;
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_VALUE_LENGTH ? value.substring(0, MAX_VALUE_LENGTH - 3) + '...' : value;
+}
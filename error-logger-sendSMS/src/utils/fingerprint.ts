@@ -0,0 +1,75 @@
+import type { ErrorNotification } from '../types/index.js';
+
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+const HEX_PATTERN = /\b(?:0x[0-9a-f]+|(?=[0-9a-f]*\d)[0-9a-f]{8,})\b/gi;
+const NUMBER_PATTERN = /\d+(?:\.\d+)?/g;
+
+/**
+ * Strip volatile values (UUIDs, hex ids, numbers) so that the same
+ * error with different ids produces the same text
+ */
+export function normalizeForFingerprint(text: string): string {
+  return text
+    .replace(UUID_PATTERN, '<uuid>')
+    .replace(HEX_PATTERN, '<hex>')
+    .replace(NUMBER_PATTERN, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Extract the top stack frames, dropping the message line and line/column numbers
+ */
+export function getTopFrames(stack: string | undefined, count: number): string[] {
+  if (!stack || count <= 0) {
+    return [];
+  }
+
+  return stack
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('at ') || line.includes('@'))
+    .slice(0, count)
+    .map(line => normalizeForFingerprint(line.replace(/:\d+(?::\d+)?\)?$/, '').replace(/\?[^\s)]*/, '')));
+}
+
+/**
+ * Compute a grouping fingerprint for a notification.
+ * `metadata.fingerprint` (string or string array) overrides the computed value.
+ */
+export function computeFingerprint(notification: ErrorNotification, stackFrames: number = 5): string {
+  const override = notification.metadata?.fingerprint;
+  if (typeof override === 'string' && override.length > 0) {
+    return override;
+  }
+  if (Array.isArray(override) && override.length > 0) {
+    return hashString(override.map(String).join('|'));
+  }
+
+  const parts = [
+    notification.severity,
+    normalizeForFingerprint(notification.message),
+    ...getTopFrames(notification.stack, stackFrames)
+  ];
+
+  return hashString(parts.join('\n'));
+}
+
+/**
+ * 53-bit string hash (cyrb53), rendered as hex
+ */
+function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
@@ -0,0 +1,28 @@
+/**
+ * Hosts where plain-text traffic stays on the machine or a private network:
+ * loopback addresses, `*.localhost`, and single-label names such as
+ * `twilio-mock` that only resolve to other containers or local services
+ */
+const LOCAL_HOST_PATTERN = /^(localhost|[a-z0-9-]+\.localhost|127\.0\.0\.1|::1|\[::1\]|[a-z0-9]([a-z0-9-]*[a-z0-9])?)$/i;
+
+export function isLocalHost(host: string): boolean {
+  return LOCAL_HOST_PATTERN.test(host);
+}
+
+/**
+ * HTTPS URLs, or plain HTTP to a local host such as a mock server
+ */
+export function isSecureOrLocalUrl(url: string): boolean {
+  if (url.startsWith('https://')) {
+    return true;
+  }
+  if (!url.startsWith('http://')) {
+    return false;
+  }
+
+  try {
+    return isLocalHost(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
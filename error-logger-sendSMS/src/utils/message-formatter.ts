@@ -1,21 +1,108 @@
-import type { ErrorNotification } from '../types/index.js';
+import type { Breadcrumb, DigestSummary, ErrorDetails, ErrorNotification, StackFrame } from '../types/index.js';
+
+/**
+ * Messages listed individually in a digest; the rest are summarized
+ */
+const DIGEST_MAX_ENTRIES = 10;
+
+/**
+ * Frames shown when a stack has no in-app frames at all
+ */
+const MAX_LIBRARY_FRAMES = 5;
+
+/**
+ * Discord rejects the whole message when an embed exceeds these
+ */
+const DISCORD_EMBED_LIMIT = 6000;
+const DISCORD_MAX_FIELDS = 25;
+const DISCORD_TITLE_LIMIT = 256;
+
+/**
+ * Slack rejects the whole message when a block exceeds these
+ */
+const SLACK_MAX_BLOCKS = 50;
+const SLACK_HEADER_LIMIT = 150;
+const SLACK_SECTION_LIMIT = 3000;
+const SLACK_FIELD_LIMIT = 2000;
+
+/**
+ * One character outside these switches an SMS to UCS-2 (70 characters per
+ * segment); the extension characters take two of the 160 septets each
+ */
+const GSM7_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?'
+  + '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM7_EXTENDED = '^{}\\[~]|€';
+const GSM7_REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '‚': "'", '′': "'",
+  '“': '"', '”': '"', '„': '"', '″': '"',
+  '–': '-', '—': '-', '−': '-',
+  '…': '...', '•': '*', '\u00a0': ' '
+};
 
 export class MessageFormatter {
   formatForDiscord(notification: ErrorNotification): any {
+    if (notification.digest) {
+      return this.formatDigestForDiscord(notification, notification.digest);
+    }
+
     const color = this.getSeverityColor(notification.severity);
 
+    // Fields carry a priority (0 = essential) until fitDiscordEmbed() removes it
     const embed: any = {
-      title: `[${notification.severity.toUpperCase()}] ${notification.message}`,
+      title: this.truncate(`[${notification.severity.toUpperCase()}] ${notification.message}`, DISCORD_TITLE_LIMIT),
       color: color,
       timestamp: notification.timestamp,
       fields: []
     };
 
+    if (notification.occurrences) {
+      embed.description = this.formatOccurrences(notification);
+    }
+
     if (notification.stack) {
       embed.fields.push({
         name: 'Stack Trace',
-        value: this.truncate(notification.stack, 1024),
-        inline: false
+        value: this.truncate(this.formatStack(notification), 1024),
+        inline: false,
+        priority: 0
+      });
+    }
+
+    if (notification.errorType && !notification.stack) {
+      // With a stack, the type is already on its first line
+      embed.fields.push({
+        name: 'Type',
+        value: notification.errorType,
+        inline: true,
+        priority: 0
+      });
+    }
+
+    if (notification.errorProperties) {
+      embed.fields.push({
+        name: 'Error Properties',
+        value: this.truncate(this.formatLines(notification.errorProperties), 1024) || '-',
+        inline: false,
+        priority: 1
+      });
+    }
+
+    // The direct cause matters most; deeper ones go first when the embed is too big
+    (notification.causes ?? []).forEach((cause, index) => {
+      embed.fields.push({
+        name: 'Caused by',
+        value: this.truncate(this.formatCause(cause), 1024) || '-',
+        inline: false,
+        priority: index === 0 ? 1 : 2
+      });
+    });
+
+    if (notification.errors?.length) {
+      embed.fields.push({
+        name: `Errors (${notification.errors.length})`,
+        value: this.truncate(this.formatAggregatedErrors(notification.errors), 1024),
+        inline: false,
+        priority: 1
       });
     }
 
@@ -23,103 +110,874 @@ export class MessageFormatter {
       embed.fields.push({
         name: 'Environment',
         value: notification.environment,
-        inline: true
+        inline: true,
+        priority: 0
       });
     }
 
     if (notification.url) {
       embed.fields.push({
         name: 'URL',
-        value: notification.url,
-        inline: true
+        value: this.truncate(notification.url, 1024),
+        inline: true,
+        priority: 0
+      });
+    }
+
+    if (notification.source) {
+      embed.fields.push({
+        name: 'Source',
+        value: this.formatSource(notification),
+        inline: true,
+        priority: 0
+      });
+    }
+
+    if (notification.user) {
+      embed.fields.push({
+        name: 'User',
+        value: this.truncate(this.formatLines(notification.user), 1024),
+        inline: true,
+        priority: 1
+      });
+    }
+
+    if (notification.tags) {
+      embed.fields.push({
+        name: 'Tags',
+        value: this.truncate(this.formatLines(notification.tags), 1024),
+        inline: false,
+        priority: 1
+      });
+    }
+
+    for (const [name, context] of Object.entries(notification.contexts ?? {})) {
+      embed.fields.push({
+        name: this.truncate(name, 256),
+        // Discord rejects empty field values
+        value: this.truncate(this.formatLines(context), 1024) || '-',
+        inline: false,
+        priority: 3
+      });
+    }
+
+    if (notification.breadcrumbs?.length) {
+      embed.fields.push({
+        name: 'Breadcrumbs',
+        value: '```\n' + this.formatBreadcrumbs(notification.breadcrumbs, 1024 - 8) + '\n```',
+        inline: false,
+        priority: 3
       });
     }
 
     if (notification.metadata) {
       embed.fields.push({
         name: 'Metadata',
-        value: '```json\n' + this.truncate(JSON.stringify(notification.metadata, null, 2), 1024) + '\n```',
-        inline: false
+        value: '```json\n' + this.truncate(JSON.stringify(notification.metadata, null, 2), 1024 - 12) + '\n```',
+        inline: false,
+        priority: 2
       });
     }
 
-    return { embeds: [embed] };
+    // The event id lets users quote an error page back to the alert
+    const footer: string[] = [];
+    if (notification.id) {
+      footer.push(`Event ID: ${notification.id}`);
+    }
+    if (notification.fingerprint) {
+      footer.push(`Fingerprint: ${notification.fingerprint}`);
+    }
+    if (footer.length > 0) {
+      embed.footer = { text: footer.join(' | ') };
+    }
+
+    return { embeds: [this.fitDiscordEmbed(embed)] };
   }
 
   formatForSlack(notification: ErrorNotification): any {
+    if (notification.digest) {
+      return this.formatDigestForSlack(notification, notification.digest);
+    }
+
     const color = this.getSeverityColorSlack(notification.severity);
 
+    // Blocks carry a priority (0 = essential) until fitSlackBlocks() removes it
     const blocks: any[] = [
       {
         type: 'header',
         text: {
           type: 'plain_text',
-          text: `${notification.severity.toUpperCase()}: ${notification.message}`
-        }
+          text: this.truncate(`${notification.severity.toUpperCase()}: ${notification.message}`, SLACK_HEADER_LIMIT)
+        },
+        priority: 0
       }
     ];
 
+    if (notification.occurrences) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${this.formatOccurrences(notification)}*`
+        },
+        priority: 0
+      });
+    }
+
     const fields: any[] = [];
 
     if (notification.environment) {
       fields.push({
         type: 'mrkdwn',
-        text: `*Environment:*\n${notification.environment}`
+        text: this.truncate(`*Environment:*\n${notification.environment}`, SLACK_FIELD_LIMIT)
       });
     }
 
     if (notification.url) {
       fields.push({
         type: 'mrkdwn',
-        text: `*URL:*\n${notification.url}`
+        text: this.truncate(`*URL:*\n${notification.url}`, SLACK_FIELD_LIMIT)
+      });
+    }
+
+    if (notification.source) {
+      fields.push({
+        type: 'mrkdwn',
+        text: this.truncate(`*Source:*\n${this.formatSource(notification)}`, SLACK_FIELD_LIMIT)
+      });
+    }
+
+    if (notification.user) {
+      fields.push({
+        type: 'mrkdwn',
+        text: this.truncate(`*User:*\n${this.formatLines(notification.user)}`, SLACK_FIELD_LIMIT)
+      });
+    }
+
+    if (notification.errorType && !notification.stack) {
+      fields.push({
+        type: 'mrkdwn',
+        text: this.truncate(`*Type:*\n${notification.errorType}`, SLACK_FIELD_LIMIT)
       });
     }
 
     if (fields.length > 0) {
       blocks.push({
         type: 'section',
-        fields: fields
+        fields: fields,
+        priority: 0
       });
     }
 
+    if (notification.tags) {
+      blocks.push(this.slackSection(`*Tags:*\n${this.formatLines(notification.tags)}`, 1));
+    }
+
+    for (const [name, context] of Object.entries(notification.contexts ?? {})) {
+      blocks.push(this.slackSection(`*${name}:*\n${this.formatLines(context)}`, 3));
+    }
+
+    if (notification.breadcrumbs?.length) {
+      blocks.push(this.slackCodeSection('*Breadcrumbs:*', this.formatBreadcrumbs(notification.breadcrumbs, SLACK_SECTION_LIMIT - 24), 3));
+    }
+
     if (notification.stack) {
-      blocks.push({
-        type: 'section',
-        text: {
-          type: 'mrkdwn',
-          text: `*Stack Trace:*\n\`\`\`${this.truncate(notification.stack, 3000)}\`\`\``
-        }
+      blocks.push(this.slackCodeSection('*Stack Trace:*', this.formatStack(notification), 0));
+    }
+
+    if (notification.errorProperties) {
+      blocks.push(this.slackSection(`*Error Properties:*\n${this.formatLines(notification.errorProperties)}`, 1));
+    }
+
+    // The direct cause matters most; deeper ones go first when there are too many blocks
+    (notification.causes ?? []).forEach((cause, index) => {
+      blocks.push(this.slackCodeSection('*Caused by:*', this.formatCause(cause), index === 0 ? 1 : 2));
+    });
+
+    if (notification.errors?.length) {
+      blocks.push(this.slackSection(
+        `*Errors (${notification.errors.length}):*\n${this.formatAggregatedErrors(notification.errors)}`,
+        1
+      ));
+    }
+
+    if (notification.metadata) {
+      blocks.push(this.slackCodeSection('*Metadata:*', JSON.stringify(notification.metadata, null, 2), 2));
+    }
+
+    const contextElements: any[] = [{
+      type: 'mrkdwn',
+      text: `Timestamp: ${notification.timestamp}`
+    }];
+
+    if (notification.id) {
+      contextElements.push({
+        type: 'mrkdwn',
+        text: `Event ID: ${notification.id}`
+      });
+    }
+
+    if (notification.fingerprint) {
+      contextElements.push({
+        type: 'mrkdwn',
+        text: this.truncate(`Fingerprint: ${notification.fingerprint}`, SLACK_SECTION_LIMIT)
+      });
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: contextElements,
+      priority: 0
+    });
+
+    return {
+      attachments: [{
+        color: color,
+        blocks: this.fitSlackBlocks(blocks)
+      }]
+    };
+  }
+
+  formatForTeams(notification: ErrorNotification): any {
+    const style = this.getSeverityStyleTeams(notification.severity);
+
+    const body: any[] = [
+      {
+        type: 'Container',
+        style: style,
+        bleed: true,
+        items: [{
+          type: 'TextBlock',
+          text: `[${notification.severity.toUpperCase()}] ${notification.message}`,
+          weight: 'Bolder',
+          size: 'Medium',
+          wrap: true
+        }]
+      }
+    ];
+
+    if (notification.occurrences) {
+      body.push({
+        type: 'TextBlock',
+        text: this.formatOccurrences(notification),
+        weight: 'Bolder',
+        wrap: true
+      });
+    }
+
+    const facts: any[] = [];
+
+    if (notification.environment) {
+      facts.push({ title: 'Environment', value: notification.environment });
+    }
+
+    if (notification.url) {
+      facts.push({ title: 'URL', value: notification.url });
+    }
+
+    if (notification.source) {
+      facts.push({ title: 'Source', value: this.formatSource(notification) });
+    }
+
+    if (notification.user) {
+      facts.push({ title: 'User', value: this.formatPairs(notification.user) });
+    }
+
+    if (notification.tags) {
+      facts.push({ title: 'Tags', value: this.formatPairs(notification.tags) });
+    }
+
+    facts.push({ title: 'Timestamp', value: notification.timestamp });
+
+    if (notification.fingerprint) {
+      facts.push({ title: 'Fingerprint', value: notification.fingerprint });
+    }
+
+    body.push({ type: 'FactSet', facts: facts });
+
+    for (const [name, context] of Object.entries(notification.contexts ?? {})) {
+      body.push({
+        type: 'TextBlock',
+        text: name,
+        weight: 'Bolder',
+        spacing: 'Medium'
+      }, {
+        type: 'FactSet',
+        facts: Object.entries(context).map(([key, value]) => ({ title: key, value: this.formatValue(value) }))
+      });
+    }
+
+    if (notification.metadata) {
+      body.push({
+        type: 'TextBlock',
+        text: 'Metadata',
+        weight: 'Bolder',
+        spacing: 'Medium'
+      }, {
+        type: 'TextBlock',
+        text: this.truncate(JSON.stringify(notification.metadata, null, 2), 3000),
+        fontType: 'Monospace',
+        wrap: true
       });
     }
 
+    const actions: any[] = [];
+
+    // Collapsed by default; toggled with a "Show stack trace" button
+    if (notification.stack) {
+      body.push({
+        type: 'Container',
+        id: 'stackTrace',
+        isVisible: false,
+        items: [{
+          type: 'TextBlock',
+          text: this.truncate(this.formatStack(notification), 3000),
+          fontType: 'Monospace',
+          size: 'Small',
+          wrap: true
+        }]
+      });
+
+      actions.push({
+        type: 'Action.ToggleVisibility',
+        title: 'Show stack trace',
+        targetElements: ['stackTrace']
+      });
+    }
+
+    const card: any = {
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body: body,
+      msteams: { width: 'Full' }
+    };
+
+    if (actions.length > 0) {
+      card.actions = actions;
+    }
+
+    return {
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: card
+      }]
+    };
+  }
+
+  /**
+   * MarkdownV2 messages for the Telegram Bot API.
+   * Stack traces that don't fit in one message are split across follow-up messages.
+   */
+  formatForTelegram(notification: ErrorNotification, maxLength: number = 4096): string[] {
+    const title = (max: number) =>
+      `*${this.escapeMarkdownV2(this.truncate(`[${notification.severity.toUpperCase()}] ${notification.message}`, max))}*`;
+
+    // Lines carry a priority (0 = essential) until fitTelegramHeader() removes it
+    const lines: Array<{ text: string; priority: number }> = [{ text: title(1000), priority: 0 }];
+
+    if (notification.occurrences) {
+      lines.push({ text: `_${this.escapeMarkdownV2(this.formatOccurrences(notification))}_`, priority: 0 });
+    }
+
+    lines.push({ text: '', priority: 0 });
+
+    if (notification.environment) {
+      lines.push({ text: `*Environment:* ${this.escapeMarkdownV2(this.truncate(notification.environment, 100))}`, priority: 0 });
+    }
+
+    if (notification.url) {
+      lines.push({ text: `*URL:* ${this.escapeMarkdownV2(this.truncate(notification.url, 300))}`, priority: 0 });
+    }
+
+    if (notification.source) {
+      lines.push({ text: `*Source:* ${this.escapeMarkdownV2(this.truncate(this.formatSource(notification), 200))}`, priority: 0 });
+    }
+
+    if (notification.user) {
+      lines.push({ text: `*User:* ${this.escapeMarkdownV2(this.truncate(this.formatPairs(notification.user), 500))}`, priority: 1 });
+    }
+
+    if (notification.tags) {
+      lines.push({ text: `*Tags:* ${this.escapeMarkdownV2(this.truncate(this.formatPairs(notification.tags), 500))}`, priority: 1 });
+    }
+
+    for (const [name, context] of Object.entries(notification.contexts ?? {})) {
+      lines.push({
+        text: `*${this.escapeMarkdownV2(this.truncate(name, 100))}:* ${this.escapeMarkdownV2(this.truncate(this.formatPairs(context), 500))}`,
+        priority: 3
+      });
+    }
+
+    lines.push({ text: `*Timestamp:* ${this.escapeMarkdownV2(notification.timestamp)}`, priority: 0 });
+
+    if (notification.fingerprint) {
+      lines.push({ text: `*Fingerprint:* \`${this.escapeMarkdownV2Code(this.truncate(notification.fingerprint, 100))}\``, priority: 0 });
+    }
+
     if (notification.metadata) {
+      const metadata = this.truncate(JSON.stringify(notification.metadata, null, 2), 1500);
+      lines.push({ text: '\n*Metadata:*\n```json\n' + this.escapeMarkdownV2Code(metadata) + '\n```', priority: 2 });
+    }
+
+    const header = this.fitTelegramHeader(lines, title, maxLength);
+
+    if (!notification.stack) {
+      return [header];
+    }
+
+    const stackBlock = (title: string, stack: string) =>
+      `*${this.escapeMarkdownV2(title)}*\n\`\`\`\n${this.escapeMarkdownV2Code(stack)}\n\`\`\``;
+
+    const stack = this.formatStack(notification);
+    const single = `${header}\n\n${stackBlock('Stack Trace:', stack)}`;
+    if (single.length <= maxLength) {
+      return [single];
+    }
+
+    // Reserve room for the title and code fences of each part
+    const chunks = this.splitStack(stack, maxLength - 64);
+    return [
+      header,
+      ...chunks.map((chunk, index) => stackBlock(`Stack Trace (${index + 1}/${chunks.length}):`, chunk))
+    ];
+  }
+
+  /**
+   * Render a JSON body template, replacing `{{path}}` placeholders with notification values
+   */
+  formatForWebhook(notification: ErrorNotification, template?: unknown): any {
+    if (template === undefined) {
+      return notification;
+    }
+
+    const render = (value: unknown): unknown => {
+      if (typeof value === 'string') {
+        const exact = value.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+        if (exact) {
+          return this.resolvePath(notification, exact[1]) ?? null;
+        }
+        return value.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+          const resolved = this.resolvePath(notification, path);
+          if (resolved === undefined || resolved === null) {
+            return '';
+          }
+          return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+        });
+      }
+
+      if (Array.isArray(value)) {
+        return value.map(render);
+      }
+
+      if (value !== null && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [key, entry] of Object.entries(value)) {
+          result[key] = render(entry);
+        }
+        return result;
+      }
+
+      return value;
+    };
+
+    return render(template);
+  }
+
+  /**
+   * Compact single-line text that fits one SMS segment (160 GSM-7 septets).
+   * Characters outside GSM-7 are transliterated or replaced with '?'.
+   */
+  formatForSms(notification: ErrorNotification, maxLength: number = 160): string {
+    const prefix = notification.environment
+      ? `[${notification.severity.toUpperCase()}] ${notification.environment}: `
+      : `[${notification.severity.toUpperCase()}] `;
+
+    const suffix = notification.occurrences
+      ? ` (+${notification.occurrences.count} in ${this.formatDuration(notification.occurrences.windowMs)})`
+      : '';
+
+    const message = notification.message.replace(/\s+/g, ' ').trim();
+
+    return this.truncateGsm7(this.toGsm7(prefix + message), Math.max(maxLength - suffix.length, 4)) + suffix;
+  }
+
+  /**
+   * Email subject with HTML and plain-text bodies
+   */
+  formatForEmail(notification: ErrorNotification): { subject: string; html: string; text: string } {
+    const severity = notification.severity.toUpperCase();
+    const subject = this.truncate(
+      `[${severity}]${notification.environment ? ` [${notification.environment}]` : ''} ${notification.message.replace(/\s+/g, ' ')}`,
+      200
+    );
+
+    const details: Array<[string, string]> = [
+      ['Severity', severity],
+      ['Timestamp', notification.timestamp]
+    ];
+    if (notification.environment) {
+      details.push(['Environment', notification.environment]);
+    }
+    if (notification.url) {
+      details.push(['URL', notification.url]);
+    }
+    if (notification.source) {
+      details.push(['Source', this.formatSource(notification)]);
+    }
+    if (notification.user) {
+      details.push(['User', this.formatPairs(notification.user)]);
+    }
+    if (notification.tags) {
+      details.push(['Tags', this.formatPairs(notification.tags)]);
+    }
+    for (const [name, context] of Object.entries(notification.contexts ?? {})) {
+      details.push([name, this.formatPairs(context)]);
+    }
+    if (notification.userAgent) {
+      details.push(['User Agent', notification.userAgent]);
+    }
+    if (notification.fingerprint) {
+      details.push(['Fingerprint', notification.fingerprint]);
+    }
+
+    const metadata = notification.metadata ? JSON.stringify(notification.metadata, null, 2) : undefined;
+    const occurrences = notification.occurrences ? this.formatOccurrences(notification) : undefined;
+    const stack = notification.stack ? this.formatStack(notification) : undefined;
+
+    const text = [
+      `[${severity}] ${notification.message}`,
+      ...(occurrences ? ['', occurrences] : []),
+      '',
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      ...(stack ? ['', 'Stack Trace:', stack] : []),
+      ...(metadata ? ['', 'Metadata:', metadata] : [])
+    ].join('\n');
+
+    const color = `#${this.getSeverityColor(notification.severity).toString(16).padStart(6, '0')}`;
+    const rows = details
+      .map(([label, value]) =>
+        `<tr><th align="left" style="padding:4px 12px 4px 0">${this.escapeHtml(label)}</th><td>${this.escapeHtml(value)}</td></tr>`)
+      .join('');
+
+    const html = [
+      '<!DOCTYPE html><html><body style="font-family:sans-serif">',
+      `<h2 style="border-left:6px solid ${color};padding-left:8px">[${severity}] ${this.escapeHtml(notification.message)}</h2>`,
+      occurrences ? `<p><strong>${this.escapeHtml(occurrences)}</strong></p>` : '',
+      `<table>${rows}</table>`,
+      stack
+        ? `<h3>Stack Trace</h3><pre style="background:#f4f4f4;padding:8px">${this.escapeHtml(stack)}</pre>`
+        : '',
+      metadata
+        ? `<h3>Metadata</h3><pre style="background:#f4f4f4;padding:8px">${this.escapeHtml(metadata)}</pre>`
+        : '',
+      '</body></html>'
+    ].join('');
+
+    return { subject, html, text };
+  }
+
+  private resolvePath(source: any, path: string): any {
+    return path.split('.').reduce<any>(
+      (current, key) => (current !== null && typeof current === 'object' ? current[key] : undefined),
+      source
+    );
+  }
+
+  private escapeMarkdownV2(value: string): string {
+    return value.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+  }
+
+  private escapeMarkdownV2Code(value: string): string {
+    return value.replace(/[`\\]/g, '\\$&');
+  }
+
+  /**
+   * Split a stack trace on line boundaries so each escaped chunk fits maxLength
+   */
+  private splitStack(stack: string, maxLength: number): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    const escapedLength = (value: string) => this.escapeMarkdownV2Code(value).length;
+
+    for (const rawLine of stack.split('\n')) {
+      // Escaping at most doubles a line, so halve overly long lines
+      const pieces = escapedLength(rawLine) > maxLength
+        ? rawLine.match(new RegExp(`[\\s\\S]{1,${Math.floor(maxLength / 2)}}`, 'g')) ?? []
+        : [rawLine];
+
+      for (const piece of pieces) {
+        const candidate = current ? `${current}\n${piece}` : piece;
+        if (escapedLength(candidate) > maxLength && current) {
+          chunks.push(current);
+          current = piece;
+        } else {
+          current = candidate;
+        }
+      }
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+
+    return chunks;
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private formatDigestForDiscord(notification: ErrorNotification, digest: DigestSummary): any {
+    const embed: any = {
+      title: `[DIGEST] ${this.formatDigestTotal(digest)}`,
+      description: `${digest.periodStart} → ${digest.periodEnd}`,
+      color: this.getSeverityColor(notification.severity),
+      timestamp: notification.timestamp,
+      fields: digest.entries.slice(0, DIGEST_MAX_ENTRIES).map(entry => ({
+        name: this.truncate(`${entry.count}× [${entry.severity.toUpperCase()}] ${entry.message}`, 256),
+        value: `First: ${entry.firstSeen}\nLast: ${entry.lastSeen}`,
+        inline: false
+      }))
+    };
+
+    if (digest.environments.length > 0) {
+      embed.fields.push({
+        name: 'Top Environments',
+        value: this.truncate(this.formatDigestCounts(digest.environments), 1024),
+        inline: true
+      });
+    }
+
+    if (digest.urls.length > 0) {
+      embed.fields.push({
+        name: 'Top URLs',
+        value: this.truncate(this.formatDigestCounts(digest.urls), 1024),
+        inline: true
+      });
+    }
+
+    const remaining = digest.entries.length - DIGEST_MAX_ENTRIES;
+    if (remaining > 0) {
+      embed.footer = { text: `…and ${remaining} more message${remaining === 1 ? '' : 's'}` };
+    }
+
+    return { embeds: [embed] };
+  }
+
+  private formatDigestForSlack(notification: ErrorNotification, digest: DigestSummary): any {
+    const blocks: any[] = [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: `DIGEST: ${this.formatDigestTotal(digest)}`
+        }
+      },
+      {
+        type: 'context',
+        elements: [{
+          type: 'mrkdwn',
+          text: `${digest.periodStart} → ${digest.periodEnd}`
+        }]
+      }
+    ];
+
+    digest.entries.slice(0, DIGEST_MAX_ENTRIES).forEach(entry => {
       blocks.push({
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*Metadata:*\n\`\`\`${this.truncate(JSON.stringify(notification.metadata, null, 2), 3000)}\`\`\``
+          text: this.truncate(
+            `*${entry.count}×* [${entry.severity.toUpperCase()}] ${entry.message}\nFirst: ${entry.firstSeen} · Last: ${entry.lastSeen}`,
+            3000
+          )
         }
       });
+    });
+
+    const fields: any[] = [];
+
+    if (digest.environments.length > 0) {
+      fields.push({
+        type: 'mrkdwn',
+        text: this.truncate(`*Top Environments:*\n${this.formatDigestCounts(digest.environments)}`, 2000)
+      });
     }
 
-    blocks.push({
-      type: 'context',
-      elements: [{
+    if (digest.urls.length > 0) {
+      fields.push({
         type: 'mrkdwn',
-        text: `Timestamp: ${notification.timestamp}`
-      }]
-    });
+        text: this.truncate(`*Top URLs:*\n${this.formatDigestCounts(digest.urls)}`, 2000)
+      });
+    }
+
+    if (fields.length > 0) {
+      blocks.push({
+        type: 'section',
+        fields: fields
+      });
+    }
+
+    const remaining = digest.entries.length - DIGEST_MAX_ENTRIES;
+    if (remaining > 0) {
+      blocks.push({
+        type: 'context',
+        elements: [{
+          type: 'mrkdwn',
+          text: `…and ${remaining} more message${remaining === 1 ? '' : 's'}`
+        }]
+      });
+    }
 
     return {
       attachments: [{
-        color: color,
+        color: this.getSeverityColorSlack(notification.severity),
         blocks: blocks
       }]
     };
   }
 
+  private formatDigestTotal(digest: DigestSummary): string {
+    const messages = digest.entries.length;
+    return `${digest.total} notification${digest.total === 1 ? '' : 's'} (${messages} distinct message${messages === 1 ? '' : 's'})`;
+  }
+
+  private formatDigestCounts(counts: Array<{ value: string; count: number }>): string {
+    return counts.map(({ value, count }) => `${value} (${count})`).join('\n');
+  }
+
+  /**
+   * `key: value` per line, for fields that render multi-line text
+   */
+  private formatLines(values: Record<string, unknown>): string {
+    return Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}: ${this.formatValue(value)}`)
+      .join('\n');
+  }
+
+  /**
+   * `key=value, ...` on one line, for table cells and facts
+   */
+  private formatPairs(values: Record<string, unknown>): string {
+    return Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${this.formatValue(value)}`)
+      .join(', ');
+  }
+
+  private formatValue(value: unknown): string {
+    return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * Stack trace with in-app frames first. node_modules, Node internals and native
+   * frames are collapsed into a count, so the frames that matter survive truncation.
+   */
+  private formatStack(error: { stack?: string; frames?: StackFrame[] }): string {
+    const frames = error.frames;
+    if (!frames?.length) {
+      return error.stack!;
+    }
+
+    const inApp = frames.filter(frame => frame.inApp);
+    const shown = inApp.length > 0 ? inApp : frames.slice(0, MAX_LIBRARY_FRAMES);
+    const hidden = frames.length - shown.length;
+
+    // Keep the `TypeError: ...` line, the title only has the message
+    const firstLine = error.stack!.split('\n')[0];
+    const header = /^\s*at\s|:\d+(?::\d+)?$/.test(firstLine) ? [] : [firstLine];
+
+    return [
+      ...header,
+      ...shown.map(frame => `    at ${this.formatFrame(frame)}`),
+      ...(hidden > 0 ? [`    ... ${hidden} library ${hidden === 1 ? 'frame' : 'frames'} hidden`] : [])
+    ].join('\n');
+  }
+
+  /**
+   * A cause's stack (its first line names it), or `Type: message` without one
+   */
+  private formatCause(cause: ErrorDetails): string {
+    const lines = [cause.stack ? this.formatStack(cause) : this.formatErrorTitle(cause)];
+    if (cause.properties) {
+      lines.push(this.formatLines(cause.properties));
+    }
+    return lines.join('\n');
+  }
+
+  private formatAggregatedErrors(errors: ErrorDetails[]): string {
+    return errors
+      .map((error, index) => {
+        const properties = error.properties ? ` (${this.formatPairs(error.properties)})` : '';
+        return `${index + 1}. ${this.formatErrorTitle(error)}${properties}`;
+      })
+      .join('\n');
+  }
+
+  private formatErrorTitle(error: ErrorDetails): string {
+    return error.type ? `${error.type}: ${error.message}` : error.message;
+  }
+
+  private formatFrame(frame: StackFrame): string {
+    const location = [frame.file ?? '<unknown>', frame.line, frame.column]
+      .filter(part => part !== undefined)
+      .join(':');
+    return frame.function ? `${frame.function} (${location})` : location;
+  }
+
+  /**
+   * Compact timeline, one `HH:MM:SS [category] message` line per breadcrumb.
+   * When it doesn't fit, the oldest lines are dropped since the latest matter most.
+   */
+  private formatBreadcrumbs(breadcrumbs: Breadcrumb[], maxLength: number): string {
+    const lines = breadcrumbs.map((breadcrumb) => {
+      const time = breadcrumb.timestamp.substring(11, 19);
+      const level = breadcrumb.level && breadcrumb.level !== 'info' ? ` ${breadcrumb.level.toUpperCase()}` : '';
+      const message = breadcrumb.message ?? (breadcrumb.data ? this.formatPairs(breadcrumb.data) : '');
+      return this.truncate(`${time} [${breadcrumb.category}]${level} ${message}`.trimEnd(), maxLength);
+    });
+
+    let length = lines.join('\n').length;
+    while (lines.length > 1 && length > maxLength) {
+      length -= lines.shift()!.length + 1;
+    }
+    return lines.join('\n');
+  }
+
+  private formatSource(notification: ErrorNotification): string {
+    const { file, line, column } = notification.source!;
+    return [file, line, column].filter(part => part !== undefined).join(':');
+  }
+
+  private formatOccurrences(notification: ErrorNotification): string {
+    const { count, windowMs, firstSeen } = notification.occurrences!;
+    const times = count === 1 ? 'time' : 'times';
+    return `Occurred ${count} more ${times} in ${this.formatDuration(windowMs)} (first seen ${firstSeen})`;
+  }
+
+  private formatDuration(ms: number): string {
+    if (ms >= 3600000 && ms % 3600000 === 0) {
+      return `${ms / 3600000} h`;
+    }
+    if (ms >= 60000 && ms % 60000 === 0) {
+      return `${ms / 60000} min`;
+    }
+    return `${Math.round(ms / 1000)} s`;
+  }
+
   private getSeverityColor(severity: string): number {
     switch (severity) {
+      case 'fatal': return 0x8B0000; // Dark red
       case 'error': return 0xFF0000; // Red
       case 'warning': return 0xFFA500; // Orange
       case 'info': return 0x0099FF; // Blue
@@ -127,8 +985,19 @@ export class MessageFormatter {
     }
   }
 
+  private getSeverityStyleTeams(severity: string): string {
+    switch (severity) {
+      case 'fatal': return 'attention';
+      case 'error': return 'attention';
+      case 'warning': return 'warning';
+      case 'info': return 'accent';
+      default: return 'default';
+    }
+  }
+
   private getSeverityColorSlack(severity: string): string {
     switch (severity) {
+      case 'fatal': return '#8B0000';
       case 'error': return 'danger';
       case 'warning': return 'warning';
       case 'info': return 'good';
@@ -136,6 +1005,124 @@ export class MessageFormatter {
     }
   }
 
+  /**
+   * Keep the embed within Discord's limits: drop the lowest-priority fields
+   * (latest first), then shorten the longest remaining values
+   */
+  private fitDiscordEmbed(embed: any): any {
+    const fields: Array<{ name: string; value: string; inline: boolean; priority: number }> = embed.fields;
+    const embedLength = () => (embed.title?.length ?? 0)
+      + (embed.description?.length ?? 0)
+      + (embed.footer?.text.length ?? 0)
+      + fields.reduce((total, field) => total + field.name.length + field.value.length, 0);
+
+    let length = embedLength();
+    while (fields.length > DISCORD_MAX_FIELDS || (length > DISCORD_EMBED_LIMIT && fields.some(field => field.priority > 0))) {
+      const lowest = Math.max(...fields.map(field => field.priority));
+      const index = fields.map(field => field.priority).lastIndexOf(lowest);
+      fields.splice(index, 1);
+      length = embedLength();
+    }
+
+    while (length > DISCORD_EMBED_LIMIT && fields.length > 0) {
+      const longest = fields.reduce((a, b) => (b.value.length > a.value.length ? b : a));
+      longest.value = this.truncate(longest.value, Math.max(longest.value.length - (length - DISCORD_EMBED_LIMIT), 16));
+      length = embedLength();
+    }
+
+    embed.fields = fields.map(({ priority: _priority, ...field }) => field);
+    return embed;
+  }
+
+  /**
+   * Drop the lowest-priority header lines, then shorten the title, until the
+   * escaped header fits one Telegram message
+   */
+  private fitTelegramHeader(
+    lines: Array<{ text: string; priority: number }>,
+    title: (max: number) => string,
+    maxLength: number
+  ): string {
+    const headerLength = () => lines.reduce((total, line) => total + line.text.length, lines.length - 1);
+
+    let length = headerLength();
+    while (length > maxLength && lines.some(line => line.priority > 0)) {
+      const lowest = Math.max(...lines.map(line => line.priority));
+      const index = lines.map(line => line.priority).lastIndexOf(lowest);
+      lines.splice(index, 1);
+      length = headerLength();
+    }
+
+    let titleLength = 1000;
+    while (length > maxLength && titleLength > 16) {
+      titleLength = Math.max(titleLength - (length - maxLength), 16);
+      lines[0].text = title(titleLength);
+      length = headerLength();
+    }
+
+    return lines.map(line => line.text).join('\n');
+  }
+
+  private toGsm7(value: string): string {
+    return Array.from(value, char => {
+      if (GSM7_BASIC.includes(char) || GSM7_EXTENDED.includes(char)) {
+        return char;
+      }
+      if (GSM7_REPLACEMENTS[char] !== undefined) {
+        return GSM7_REPLACEMENTS[char];
+      }
+      // Drop accents GSM-7 lacks (á -> a); anything else can't be sent as GSM-7
+      const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      return base && Array.from(base).every(c => GSM7_BASIC.includes(c)) ? base : '?';
+    }).join('');
+  }
+
+  /**
+   * Truncate GSM-7 text to maxLength septets, counting extension characters twice
+   */
+  private truncateGsm7(value: string, maxLength: number): string {
+    const septets = (char: string) => (GSM7_EXTENDED.includes(char) ? 2 : 1);
+    const chars = Array.from(value);
+    if (chars.reduce((total, char) => total + septets(char), 0) <= maxLength) {
+      return value;
+    }
+
+    let length = 0;
+    let end = 0;
+    while (end < chars.length && length + septets(chars[end]) <= maxLength - 3) {
+      length += septets(chars[end]);
+      end++;
+    }
+    return chars.slice(0, end).join('') + '...';
+  }
+
+  private slackSection(text: string, priority: number): any {
+    return {
+      type: 'section',
+      text: { type: 'mrkdwn', text: this.truncate(text, SLACK_SECTION_LIMIT) },
+      priority
+    };
+  }
+
+  /**
+   * Section with a title and a code block, truncated inside the fences so
+   * the whole text stays within Slack's section limit
+   */
+  private slackCodeSection(title: string, code: string, priority: number): any {
+    const prefix = `${title}\n\`\`\``;
+    return this.slackSection(`${prefix}${this.truncate(code, SLACK_SECTION_LIMIT - prefix.length - 3)}\`\`\``, priority);
+  }
+
+  private fitSlackBlocks(blocks: Array<{ priority: number }>): any[] {
+    while (blocks.length > SLACK_MAX_BLOCKS && blocks.some(block => block.priority > 0)) {
+      const lowest = Math.max(...blocks.map(block => block.priority));
+      const index = blocks.map(block => block.priority).lastIndexOf(lowest);
+      blocks.splice(index, 1);
+    }
+
+    return blocks.map(({ priority: _priority, ...block }) => block);
+  }
+
   private truncate(str: string, maxLength: number): string {
     if (str.length <= maxLength) {
       return str;
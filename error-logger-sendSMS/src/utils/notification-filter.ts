@@ -0,0 +1,88 @@
+import type { DropReason, ErrorNotification, NotificationConfig } from '../types/index.js';
+
+export type FilterConfig = Pick<NotificationConfig, 'sampleRates' | 'sampler' | 'ignoreErrors' | 'denyUrls' | 'allowUrls'>;
+
+/**
+ * Ignore rules and sampling, evaluated on raw notifications before any
+ * sanitizing or formatting work is spent on them
+ */
+export class NotificationFilter {
+  private config: FilterConfig;
+
+  constructor(config: FilterConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * @returns why the notification should be dropped, or undefined to keep it
+   */
+  check(notification: ErrorNotification): DropReason | undefined {
+    if (this.isIgnored(notification)) {
+      return 'ignored';
+    }
+    if (!this.isUrlAllowed(notification.url)) {
+      return 'deniedUrl';
+    }
+    if (!this.isSampled(notification)) {
+      return 'sampled';
+    }
+    return undefined;
+  }
+
+  private isIgnored(notification: ErrorNotification): boolean {
+    const patterns = this.config.ignoreErrors;
+    if (!patterns?.length) {
+      return false;
+    }
+
+    const candidates = [notification.message];
+    if (notification.errorType) {
+      candidates.push(notification.errorType, `${notification.errorType}: ${notification.message}`);
+    }
+    return candidates.some(candidate => matchesAny(candidate, patterns));
+  }
+
+  private isUrlAllowed(url: string | undefined): boolean {
+    if (!url) {
+      return true;
+    }
+    if (this.config.denyUrls?.length && matchesAny(url, this.config.denyUrls)) {
+      return false;
+    }
+    if (this.config.allowUrls?.length && !matchesAny(url, this.config.allowUrls)) {
+      return false;
+    }
+    return true;
+  }
+
+  private isSampled(notification: ErrorNotification): boolean {
+    let rate: number | boolean | undefined;
+
+    if (this.config.sampler) {
+      try {
+        rate = this.config.sampler(notification);
+      } catch (error) {
+        console.error('[ErrorLogger] Sampler failed, using sampleRates:', error);
+      }
+    }
+
+    if (rate === undefined) {
+      rate = this.config.sampleRates?.[notification.severity] ?? 1;
+    }
+    if (typeof rate === 'boolean') {
+      return rate;
+    }
+    return rate >= 1 || Math.random() < rate;
+  }
+}
+
+function matchesAny(value: string, patterns: Array<string | RegExp>): boolean {
+  return patterns.some((pattern) => {
+    if (typeof pattern === 'string') {
+      return value.includes(pattern);
+    }
+    // Global regexes keep state between test() calls
+    pattern.lastIndex = 0;
+    return pattern.test(value);
+  });
+}
@@ -0,0 +1,181 @@
+import type {
+  ErrorNotification,
+  NotificationProvider,
+  RoutingConfig,
+  RoutingMatch,
+  RoutingRule
+} from '../types/index.js';
+import { isSeverityAtLeast } from './severity.js';
+
+export class NotificationRouter {
+  private config?: RoutingConfig;
+
+  constructor(config?: RoutingConfig) {
+    this.config = config;
+  }
+
+  route(notification: ErrorNotification, providers: NotificationProvider[]): NotificationProvider[] {
+    if (!this.config || this.config.rules.length === 0) {
+      return providers;
+    }
+
+    const targets = this.resolveTargets(notification);
+    if (!targets) {
+      return providers;
+    }
+
+    return providers.filter(provider => this.isTargeted(provider, targets));
+  }
+
+  /**
+   * Throw if a rule or the default targets name no configured provider or channel,
+   * as notifications routed only there would be dropped silently
+   */
+  validateTargets(providers: NotificationProvider[]): void {
+    if (!this.config) {
+      return;
+    }
+
+    const known = new Set(providers.flatMap(provider => this.getTargetNames(provider)));
+
+    const check = (targets: string[], label: string) => {
+      const unknown = targets.find(target => !known.has(target.toLowerCase()));
+      if (unknown !== undefined) {
+        throw new Error(`${label} targets unknown provider or channel "${unknown}"`);
+      }
+    };
+
+    this.config.rules.forEach((rule, index) => {
+      check(rule.targets, rule.name ? `Routing rule "${rule.name}"` : `Routing rule ${index}`);
+    });
+    if (this.config.defaultTargets) {
+      check(this.config.defaultTargets, 'routing.defaultTargets');
+    }
+  }
+
+  /**
+   * Collect targets of all matching rules
+   * @returns undefined when every provider should receive the notification
+   */
+  private resolveTargets(notification: ErrorNotification): Set<string> | undefined {
+    const targets = new Set<string>();
+    let matched = false;
+
+    for (const rule of this.config!.rules) {
+      if (!this.matches(rule, notification)) {
+        continue;
+      }
+
+      matched = true;
+      rule.targets.forEach(target => targets.add(target.toLowerCase()));
+
+      if (rule.stop) {
+        break;
+      }
+    }
+
+    if (!matched) {
+      const defaults = this.config!.defaultTargets;
+      return defaults ? new Set(defaults.map(target => target.toLowerCase())) : undefined;
+    }
+
+    return targets;
+  }
+
+  private isTargeted(provider: NotificationProvider, targets: Set<string>): boolean {
+    return this.getTargetNames(provider).some(name => targets.has(name));
+  }
+
+  /**
+   * Lowercased names a target may use: the provider (`discord`), and for named
+   * channels the channel (`prod-alerts`) and its key (`discord:prod-alerts`)
+   */
+  private getTargetNames(provider: NotificationProvider): string[] {
+    const name = provider.getName().toLowerCase();
+    const channel = provider.getChannel?.()?.toLowerCase();
+    return channel !== undefined ? [name, channel, `${name}:${channel}`] : [name];
+  }
+
+  private matches(rule: RoutingRule, notification: ErrorNotification): boolean {
+    const match: RoutingMatch = rule.match;
+
+    if (match.severity !== undefined) {
+      const severities = Array.isArray(match.severity) ? match.severity : [match.severity];
+      if (!severities.includes(notification.severity)) {
+        return false;
+      }
+    }
+
+    if (match.minSeverity && !isSeverityAtLeast(notification.severity, match.minSeverity)) {
+      return false;
+    }
+
+    if (match.environment !== undefined) {
+      const environments = Array.isArray(match.environment) ? match.environment : [match.environment];
+      if (!notification.environment || !environments.includes(notification.environment)) {
+        return false;
+      }
+    }
+
+    if (match.message !== undefined) {
+      const regex = typeof match.message === 'string' ? new RegExp(match.message) : match.message;
+      regex.lastIndex = 0;
+      if (!regex.test(notification.message)) {
+        return false;
+      }
+    }
+
+    if (match.metadataKeys) {
+      for (const key of match.metadataKeys) {
+        if (this.getPath(notification.metadata, key) === undefined) {
+          return false;
+        }
+      }
+    }
+
+    if (match.metadata) {
+      for (const [path, expected] of Object.entries(match.metadata)) {
+        if (!this.matchesValue(this.getPath(notification.metadata, path), expected)) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  private matchesValue(
+    actual: any,
+    expected: string | number | boolean | RegExp | Array<string | number | boolean>
+  ): boolean {
+    if (actual === undefined) {
+      return false;
+    }
+
+    if (expected instanceof RegExp) {
+      expected.lastIndex = 0;
+      return expected.test(String(actual));
+    }
+
+    if (Array.isArray(expected)) {
+      return expected.includes(actual);
+    }
+
+    return actual === expected;
+  }
+
+  private getPath(obj: Record<string, any> | undefined, path: string): any {
+    if (!obj) {
+      return undefined;
+    }
+
+    if (path in obj) {
+      return obj[path];
+    }
+
+    return path.split('.').reduce<any>(
+      (current, key) => (current !== null && typeof current === 'object' ? current[key] : undefined),
+      obj
+    );
+  }
+}
@@ -0,0 +1,219 @@
+import type { ErrorNotification, OutboxConfig, OutboxEntry } from '../types/index.js';
+import { mergeOutboxConfig } from '../types/defaults.js';
+
+const OUTBOX_FILE = 'outbox.jsonl';
+const DEAD_LETTER_FILE = 'dead-letter.jsonl';
+
+/**
+ * Append-only JSONL outbox for notifications that failed delivery.
+ * Node modules are loaded lazily so browser bundles don't pull them in.
+ */
+export class Outbox {
+  private config: OutboxConfig;
+
+  // File operations run one at a time so concurrent sends can't interleave writes
+  private lock: Promise<unknown> = Promise.resolve();
+
+  // Entries and bytes in the outbox file, read once so enqueue can check the caps without re-reading it
+  private usage?: { items: number; bytes: number };
+
+  constructor(config: Partial<OutboxConfig> = {}) {
+    this.config = mergeOutboxConfig(config);
+  }
+
+  static isSupported(): boolean {
+    return typeof process !== 'undefined' && !!process.versions?.node;
+  }
+
+  updateConfig(config: Partial<OutboxConfig> = {}): void {
+    this.config = mergeOutboxConfig(config);
+  }
+
+  /**
+   * Persist a notification that could not be delivered to a channel.
+   * The entry is appended; the file is only rewritten when a size cap is hit.
+   * @param enqueuedAt - Original time when requeueing, so the entry still expires on schedule
+   */
+  async enqueue(channel: string, notification: ErrorNotification, enqueuedAt?: string): Promise<void> {
+    const entry: OutboxEntry = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      channel,
+      notification,
+      enqueuedAt: enqueuedAt ?? new Date().toISOString()
+    };
+
+    await this.exclusive(async () => {
+      const usage = await this.getUsage();
+      await this.append(entry);
+      usage.items++;
+      usage.bytes += this.lineSize(entry);
+
+      if (usage.items > this.config.maxItems || usage.bytes > this.config.maxBytes) {
+        await this.write(await this.applyCaps(await this.read(OUTBOX_FILE)));
+      }
+    });
+  }
+
+  /**
+   * Pending notifications, oldest first. Expired entries are moved to the dead-letter file.
+   */
+  async pending(): Promise<OutboxEntry[]> {
+    return this.exclusive(async () => {
+      const entries = await this.read(OUTBOX_FILE);
+      const kept = await this.applyCaps(entries);
+      if (kept.length !== entries.length) {
+        await this.write(kept);
+      }
+      return kept;
+    });
+  }
+
+  /**
+   * Try to deliver every pending notification in order
+   * @param deliver resolves true when the entry was delivered and can be removed
+   * @returns number of delivered entries
+   */
+  async replay(deliver: (entry: OutboxEntry) => Promise<boolean>): Promise<number> {
+    const entries = await this.pending();
+    const delivered = new Set<string>();
+
+    // Entries stay on disk until delivered, so a crash mid-replay loses nothing
+    for (const entry of entries) {
+      if (await deliver(entry)) {
+        delivered.add(entry.id);
+      }
+    }
+
+    if (delivered.size > 0) {
+      await this.exclusive(async () => {
+        const current = await this.read(OUTBOX_FILE);
+        await this.write(current.filter(entry => !delivered.has(entry.id)));
+      });
+    }
+
+    return delivered.size;
+  }
+
+  /**
+   * Entries that exceeded maxAgeMs before they could be delivered
+   */
+  async deadLetters(): Promise<OutboxEntry[]> {
+    return this.exclusive(() => this.read(DEAD_LETTER_FILE));
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn, fn);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Move expired entries to the dead-letter file and drop the oldest beyond the size caps
+   */
+  private async applyCaps(entries: OutboxEntry[]): Promise<OutboxEntry[]> {
+    const cutoff = Date.now() - this.config.maxAgeMs;
+    const expired = entries.filter(entry => Date.parse(entry.enqueuedAt) < cutoff);
+    let kept = entries.filter(entry => Date.parse(entry.enqueuedAt) >= cutoff);
+
+    if (expired.length > 0) {
+      await this.appendDeadLetters(expired);
+    }
+
+    let dropped = 0;
+    if (kept.length > this.config.maxItems) {
+      dropped += kept.length - this.config.maxItems;
+      kept = kept.slice(-this.config.maxItems);
+    }
+
+    let size = kept.reduce((total, entry) => total + this.lineSize(entry), 0);
+    while (kept.length > 0 && size > this.config.maxBytes) {
+      size -= this.lineSize(kept[0]);
+      kept = kept.slice(1);
+      dropped++;
+    }
+
+    if (dropped > 0) {
+      console.warn(`[Outbox] Dropped ${dropped} oldest notification(s) to stay within size limits`);
+    }
+
+    return kept;
+  }
+
+  private lineSize(entry: OutboxEntry): number {
+    return Buffer.byteLength(JSON.stringify(entry)) + 1;
+  }
+
+  private async read(file: string): Promise<OutboxEntry[]> {
+    const fs = await import('node:fs/promises');
+
+    let content: string;
+    try {
+      content = await fs.readFile(await this.resolve(file), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: OutboxEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        console.warn(`[Outbox] Skipping corrupt line in ${file}`);
+      }
+    }
+    return entries;
+  }
+
+  private async getUsage(): Promise<{ items: number; bytes: number }> {
+    if (!this.usage) {
+      const entries = await this.read(OUTBOX_FILE);
+      this.usage = {
+        items: entries.length,
+        bytes: entries.reduce((total, entry) => total + this.lineSize(entry), 0)
+      };
+    }
+    return this.usage;
+  }
+
+  private async append(entry: OutboxEntry): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.mkdir(this.config.directory, { recursive: true });
+    await fs.appendFile(await this.resolve(OUTBOX_FILE), JSON.stringify(entry) + '\n', 'utf8');
+  }
+
+  private async write(entries: OutboxEntry[]): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const target = await this.resolve(OUTBOX_FILE);
+    const temp = `${target}.${process.pid}.tmp`;
+
+    // Write then rename so a crash never leaves a half-written outbox
+    await fs.mkdir(this.config.directory, { recursive: true });
+    await fs.writeFile(temp, entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+    await fs.rename(temp, target);
+    this.usage = {
+      items: entries.length,
+      bytes: entries.reduce((total, entry) => total + this.lineSize(entry), 0)
+    };
+  }
+
+  private async appendDeadLetters(entries: OutboxEntry[]): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.mkdir(this.config.directory, { recursive: true });
+    await fs.appendFile(
+      await this.resolve(DEAD_LETTER_FILE),
+      entries.map(entry => JSON.stringify(entry) + '\n').join(''),
+      'utf8'
+    );
+  }
+
+  private async resolve(file: string): Promise<string> {
+    const path = await import('node:path');
+    return path.join(this.config.directory, file);
+  }
+}
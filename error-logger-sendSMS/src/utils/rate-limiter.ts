@@ -0,0 +1,180 @@
+import type { RateLimitRule } from '../types/index.js';
+
+/**
+ * Thrown when a platform responds with 429 or the local queue is full
+ */
+export class RateLimitError extends Error {
+  /** Milliseconds to wait before retrying */
+  readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Parse a Retry-After style value (seconds, possibly fractional, or an HTTP date)
+ * @returns milliseconds, or undefined if the value cannot be parsed
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.max(0, Math.ceil(value * 1000));
+  }
+
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds * 1000));
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+interface QueuedRequest {
+  resolve: () => void;
+}
+
+/**
+ * Token bucket limiter for a single webhook.
+ * Sends beyond the bucket are queued (FIFO) instead of dropped.
+ */
+export class RateLimiter {
+  private rule: RateLimitRule;
+  private maxQueueSize: number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil: number = 0;
+  private queue: QueuedRequest[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(rule: RateLimitRule, maxQueueSize: number = 1000) {
+    this.rule = rule;
+    this.maxQueueSize = maxQueueSize;
+    this.tokens = rule.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait for a token
+   * @throws {RateLimitError} If the queue is full
+   */
+  acquire(): Promise<void> {
+    if (this.queue.length === 0 && this.tryTake()) {
+      return Promise.resolve();
+    }
+
+    if (this.queue.length >= this.maxQueueSize) {
+      return Promise.reject(
+        new RateLimitError('Rate limit queue is full', this.getWaitTime())
+      );
+    }
+
+    return new Promise<void>(resolve => {
+      this.queue.push({ resolve });
+      this.scheduleDrain();
+    });
+  }
+
+  /**
+   * Block all sends for the given duration (e.g. after a 429 response)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.scheduleDrain();
+  }
+
+  /**
+   * Apply server-reported limits from response headers
+   */
+  applyServerLimit(remaining: number | undefined, resetAfterMs: number | undefined): void {
+    if (remaining === 0 && resetAfterMs !== undefined) {
+      this.pause(resetAfterMs);
+    }
+  }
+
+  getQueueSize(): number {
+    return this.queue.length;
+  }
+
+  private tryTake(): boolean {
+    if (Date.now() < this.pausedUntil) {
+      return false;
+    }
+
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+    return false;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+    this.tokens = Math.min(
+      this.rule.capacity,
+      this.tokens + (elapsed * this.rule.capacity) / this.rule.intervalMs
+    );
+  }
+
+  private getWaitTime(): number {
+    this.refill();
+    const pauseWait = Math.max(0, this.pausedUntil - Date.now());
+    const tokenWait = this.tokens >= 1
+      ? 0
+      : Math.ceil(((1 - this.tokens) * this.rule.intervalMs) / this.rule.capacity);
+    return Math.max(pauseWait, tokenWait);
+  }
+
+  private scheduleDrain(): void {
+    if (this.timer || this.queue.length === 0) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.max(1, this.getWaitTime()));
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.tryTake()) {
+      this.queue.shift()!.resolve();
+    }
+    this.scheduleDrain();
+  }
+}
+
+/**
+ * Shares one limiter per webhook across provider re-initialization
+ */
+export class RateLimiterPool {
+  private limiters: Map<string, RateLimiter> = new Map();
+  private maxQueueSize: number;
+
+  constructor(maxQueueSize: number = 1000) {
+    this.maxQueueSize = maxQueueSize;
+  }
+
+  get(key: string, rule: RateLimitRule): RateLimiter {
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter(rule, this.maxQueueSize);
+      this.limiters.set(key, limiter);
+    }
+    return limiter;
+  }
+}
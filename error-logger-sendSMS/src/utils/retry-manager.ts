@@ -1,10 +1,15 @@
 import type { RetryPolicy } from '../types/index.js';
+import { RateLimitError } from './rate-limiter.js';
 
 export class RetryManager {
   private policy: RetryPolicy;
   private failureCount: number = 0;
   private circuitBreakerOpen: boolean = false;
   private lastFailureTime: number = 0;
+  private recovering: boolean = false;
+  private retryListeners: Array<(attempt: number, error: Error) => void> = [];
+  private circuitCloseListeners: Array<() => void> = [];
+  private attempts: WeakMap<object, number> = new WeakMap();
 
   constructor(policy: Partial<RetryPolicy> = {}) {
     this.policy = {
@@ -15,30 +20,54 @@ export class RetryManager {
     };
   }
 
+  /**
+   * @param attemptKey - Record this call's attempts under the key (e.g. the notification), read back with getAttempts()
+   */
   async executeWithRetry<T>(
     fn: () => Promise<T>,
-    onRetry?: (attempt: number, error: Error) => void
+    onRetry?: (attempt: number, error: Error) => void,
+    attemptKey?: object
   ): Promise<T> {
+    if (attemptKey && !this.attempts.has(attemptKey)) {
+      this.attempts.set(attemptKey, 0);
+    }
+
     // Check circuit breaker
     if (this.circuitBreakerOpen) {
       const now = Date.now();
       if (now - this.lastFailureTime < 60000) { // 60 second reset
         throw new Error('Circuit breaker is open');
       }
+      // Half-open: let this call through and report recovery once it succeeds
       this.circuitBreakerOpen = false;
       this.failureCount = 0;
+      this.recovering = true;
     }
 
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt < this.policy.maxAttempts; attempt++) {
+      // Calls sharing a key (one per SMS recipient or Telegram message part)
+      // run in parallel, so the key keeps the highest count of any one call
+      if (attemptKey) {
+        this.attempts.set(attemptKey, Math.max(this.attempts.get(attemptKey)!, attempt + 1));
+      }
+
       try {
         const result = await fn();
         this.failureCount = 0; // Reset on success
+        if (this.recovering) {
+          this.recovering = false;
+          this.notifyCircuitClosed();
+        }
         return result;
       } catch (error) {
         lastError = error as Error;
-        this.failureCount++;
+
+        // Rate limiting is not a delivery failure - don't trip the circuit breaker
+        if (!(lastError instanceof RateLimitError)) {
+          this.failureCount++;
+        }
 
         if (onRetry) {
           onRetry(attempt + 1, lastError);
@@ -46,7 +75,9 @@ export class RetryManager {
 
         // Don't delay after last attempt
         if (attempt < this.policy.maxAttempts - 1) {
-          const delay = this.calculateDelay(attempt);
+          this.retryListeners.forEach(listener => listener(attempt + 1, lastError!));
+
+          const delay = this.calculateDelay(attempt, lastError);
           await this.sleep(delay);
         }
       }
@@ -55,13 +86,27 @@ export class RetryManager {
     // Open circuit breaker after max consecutive failures
     if (this.failureCount >= 5) {
       this.circuitBreakerOpen = true;
+      this.recovering = false;
       this.lastFailureTime = Date.now();
     }
 
     throw lastError || new Error('Retry failed');
   }
 
-  private calculateDelay(attempt: number): number {
+  /**
+   * Most attempts made by any single call under the key
+   * @returns undefined if the key was never passed to executeWithRetry()
+   */
+  getAttempts(attemptKey: object): number | undefined {
+    return this.attempts.get(attemptKey);
+  }
+
+  private calculateDelay(attempt: number, error?: Error): number {
+    // Honor server-provided retry delay (Discord retry_after, Slack Retry-After)
+    if (error instanceof RateLimitError) {
+      return Math.min(error.retryAfter, 60000);
+    }
+
     // Exponential backoff: baseDelay * 2^attempt
     let delay = this.policy.baseDelay * Math.pow(2, attempt);
 
@@ -79,12 +124,36 @@ export class RetryManager {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Observe every failed attempt that will be retried, regardless of caller
+   */
+  addRetryListener(listener: (attempt: number, error: Error) => void): void {
+    this.retryListeners.push(listener);
+  }
+
+  /**
+   * Observe the circuit breaker closing again after it was opened
+   */
+  addCircuitCloseListener(listener: () => void): void {
+    this.circuitCloseListeners.push(listener);
+  }
+
+  private notifyCircuitClosed(): void {
+    this.circuitCloseListeners.forEach(listener => listener());
+  }
+
   isCircuitBreakerOpen(): boolean {
     return this.circuitBreakerOpen;
   }
 
   resetCircuitBreaker(): void {
+    const wasOpen = this.circuitBreakerOpen || this.recovering;
     this.circuitBreakerOpen = false;
+    this.recovering = false;
     this.failureCount = 0;
+
+    if (wasOpen) {
+      this.notifyCircuitClosed();
+    }
   }
 }
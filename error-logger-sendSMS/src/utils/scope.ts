@@ -0,0 +1,70 @@
+import type { ErrorNotification, ScopeUser } from '../types/index.js';
+
+/**
+ * User, tags and named contexts merged into every notification
+ */
+export class Scope {
+  private user?: ScopeUser;
+  private tags: Record<string, string> = {};
+  private contexts: Record<string, Record<string, unknown>> = {};
+
+  setUser(user: ScopeUser | null): this {
+    this.user = user ? { ...user } : undefined;
+    return this;
+  }
+
+  setTag(key: string, value: string): this {
+    this.tags[key] = String(value);
+    return this;
+  }
+
+  setTags(tags: Record<string, string>): this {
+    for (const [key, value] of Object.entries(tags)) {
+      this.setTag(key, value);
+    }
+    return this;
+  }
+
+  /**
+   * Set a named context, or remove it with null
+   */
+  setContext(name: string, context: Record<string, unknown> | null): this {
+    if (context) {
+      this.contexts[name] = { ...context };
+    } else {
+      delete this.contexts[name];
+    }
+    return this;
+  }
+
+  clear(): this {
+    this.user = undefined;
+    this.tags = {};
+    this.contexts = {};
+    return this;
+  }
+
+  clone(): Scope {
+    const scope = new Scope();
+    scope.user = this.user ? { ...this.user } : undefined;
+    scope.tags = { ...this.tags };
+    scope.contexts = { ...this.contexts };
+    return scope;
+  }
+
+  /**
+   * Copy scope data onto a notification; nothing is added for empty parts
+   */
+  applyTo(notification: ErrorNotification): ErrorNotification {
+    if (this.user) {
+      notification.user = { ...this.user };
+    }
+    if (Object.keys(this.tags).length > 0) {
+      notification.tags = { ...this.tags };
+    }
+    if (Object.keys(this.contexts).length > 0) {
+      notification.contexts = { ...this.contexts };
+    }
+    return notification;
+  }
+}
@@ -0,0 +1,16 @@
+import type { ErrorSeverity } from '../types/index.js';
+
+const SEVERITY_RANK: Record<ErrorSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+  fatal: 3
+};
+
+export function getSeverityRank(severity: ErrorSeverity): number {
+  return SEVERITY_RANK[severity] ?? 0;
+}
+
+export function isSeverityAtLeast(severity: ErrorSeverity, minimum: ErrorSeverity): boolean {
+  return getSeverityRank(severity) >= getSeverityRank(minimum);
+}
@@ -0,0 +1,304 @@
+import { isLocalHost } from './local-host.js';
+
+/**
+ * Minimal SMTP client (RFC 5321) with STARTTLS and AUTH PLAIN/LOGIN.
+ * Node modules are loaded lazily so browser bundles don't pull them in.
+ */
+
+export interface SmtpClientOptions {
+  host: string;
+  port: number;
+
+  /** Connect over implicit TLS (port 465) */
+  secure: boolean;
+
+  /** STARTTLS behaviour when not connected over implicit TLS */
+  startTls: 'opportunistic' | 'required' | 'disabled';
+
+  auth?: { user: string; pass: string };
+
+  /** Verify the server certificate */
+  rejectUnauthorized: boolean;
+
+  /** Socket timeout in milliseconds */
+  timeout: number;
+
+  /** Name announced in EHLO */
+  clientName: string;
+}
+
+export interface SmtpMessage {
+  from: string;
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+type SmtpSocket = import('node:net').Socket;
+
+export class SmtpClient {
+  private options: SmtpClientOptions;
+  private socket?: SmtpSocket;
+  private buffer: string = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private socketError?: Error;
+  private encrypted: boolean = false;
+
+  constructor(options: SmtpClientOptions) {
+    this.options = options;
+  }
+
+  async send(message: SmtpMessage): Promise<void> {
+    await this.connect();
+
+    try {
+      await this.expect(await this.readReply(), [220]);
+
+      let capabilities = await this.ehlo();
+
+      if (!this.options.secure && this.options.startTls !== 'disabled') {
+        if (capabilities.includes('STARTTLS')) {
+          await this.command('STARTTLS', [220]);
+          await this.upgradeToTls();
+          capabilities = await this.ehlo();
+        } else if (this.options.startTls === 'required') {
+          throw new Error('SMTP server does not support STARTTLS');
+        }
+      }
+
+      if (this.options.auth) {
+        // STARTTLS may be missing or stripped by an attacker; never leak credentials then
+        if (!this.encrypted && !isLocalHost(this.options.host)) {
+          throw new Error('Refusing to send SMTP credentials over an unencrypted connection');
+        }
+        await this.authenticate(capabilities);
+      }
+
+      await this.command(`MAIL FROM:<${message.from}>`, [250]);
+      for (const recipient of [...message.to, ...(message.cc ?? [])]) {
+        await this.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+
+      await this.command('DATA', [354]);
+      await this.command(this.buildMessage(message) + '\r\n.', [250]);
+
+      await this.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      this.close();
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const { host, port, secure, rejectUnauthorized, timeout } = this.options;
+
+    const socket: SmtpSocket = secure
+      ? (await import('node:tls')).connect({ host, port, servername: host, rejectUnauthorized })
+      : (await import('node:net')).connect({ host, port });
+
+    // Armed before connecting so an unreachable host fails fast instead of waiting for the OS
+    socket.setTimeout(timeout, () => socket.destroy(new Error('SMTP connection timed out')));
+
+    await new Promise<void>((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      socket.once('error', onError);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError);
+        resolve();
+      });
+    });
+
+    this.encrypted = secure;
+    this.attach(socket);
+  }
+
+  private async upgradeToTls(): Promise<void> {
+    const plain = this.socket!;
+    this.detach(plain);
+    plain.setTimeout(0);
+
+    const tls = await import('node:tls');
+    const secured = tls.connect({
+      socket: plain,
+      servername: this.options.host,
+      rejectUnauthorized: this.options.rejectUnauthorized
+    });
+    secured.setTimeout(this.options.timeout, () => secured.destroy(new Error('SMTP connection timed out')));
+
+    await new Promise<void>((resolve, reject) => {
+      secured.once('error', reject);
+      secured.once('secureConnect', () => {
+        secured.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.encrypted = true;
+    this.attach(secured);
+  }
+
+  private attach(socket: SmtpSocket): void {
+    this.socket = socket;
+    this.buffer = '';
+    socket.setEncoding('utf8');
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: SmtpSocket): void {
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+  }
+
+  private close(): void {
+    if (this.socket) {
+      this.detach(this.socket);
+      this.socket.destroy();
+      this.socket = undefined;
+    }
+  }
+
+  private onData = (chunk: string): void => {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.replyLines.push(line);
+
+      // The last line of a (multi-line) reply has a space after the code
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.pushReply({ code: parseInt(line.slice(0, 3), 10), lines: this.replyLines });
+        this.replyLines = [];
+      }
+    }
+  };
+
+  private onError = (error: Error): void => {
+    this.fail(error);
+  };
+
+  private onClose = (): void => {
+    this.fail(new Error('SMTP connection closed unexpectedly'));
+  };
+
+  private pushReply(reply: SmtpReply): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = undefined;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.socketError = this.socketError ?? error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(error);
+    }
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+    if (this.socketError) {
+      return Promise.reject(this.socketError);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket!.write(line + '\r\n');
+    return this.expect(await this.readReply(), expected);
+  }
+
+  private expect(reply: SmtpReply, expected: number[]): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  private async ehlo(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${this.options.clientName}`, [250]);
+    return reply.lines.slice(1).map(line => line.slice(4).trim().toUpperCase());
+  }
+
+  private async authenticate(capabilities: string[]): Promise<void> {
+    const { user, pass } = this.options.auth!;
+    const authLine = capabilities.find(capability => capability.startsWith('AUTH')) ?? 'AUTH PLAIN';
+    const mechanisms = authLine.replace(/^AUTH[ =]/, '').split(/\s+/);
+
+    if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+      await this.command(`AUTH PLAIN ${this.base64(`\u0000${user}\u0000${pass}`)}`, [235]);
+      return;
+    }
+
+    await this.command('AUTH LOGIN', [334]);
+    await this.command(this.base64(user), [334]);
+    await this.command(this.base64(pass), [235]);
+  }
+
+  private buildMessage(message: SmtpMessage): string {
+    const boundary = `----=_ErrorLogger_${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+    const domain = message.from.split('@')[1] || 'localhost';
+
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to.join(', ')}`,
+      ...(message.cc && message.cc.length > 0 ? [`Cc: ${message.cc.join(', ')}`] : []),
+      `Subject: ${this.encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${domain}>`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/alternative; boundary="${boundary}"`
+    ];
+
+    const parts = [
+      this.buildPart('text/plain', message.text),
+      this.buildPart('text/html', message.html)
+    ].map(part => `--${boundary}\r\n${part}`);
+
+    const body = [headers.join('\r\n'), '', ...parts, `--${boundary}--`].join('\r\n');
+
+    // Dot-stuffing: lines starting with "." must be escaped
+    return body.replace(/^\./gm, '..');
+  }
+
+  private buildPart(contentType: string, content: string): string {
+    const encoded = this.base64(content).replace(/.{1,76}/g, '$&\r\n');
+    return [
+      `Content-Type: ${contentType}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      encoded
+    ].join('\r\n');
+  }
+
+  private encodeHeader(value: string): string {
+    const singleLine = value.replace(/[\r\n]+/g, ' ');
+    return /^[\x20-\x7e]*$/.test(singleLine) ? singleLine : `=?UTF-8?B?${this.base64(singleLine)}?=`;
+  }
+
+  private base64(value: string): string {
+    return Buffer.from(value, 'utf8').toString('base64');
+  }
+}
@@ -0,0 +1,114 @@
+import type { StackFrame } from '../types/index.js';
+
+const V8_FRAME = /^\s*at\s+(.*)$/;
+const LOCATION = /^(.*?)(?::(\d+))?(?::(\d+))?$/;
+const EVAL_ORIGIN = /\((.*?:\d+:\d+)\)/;
+const GECKO_LOCATION = /:\d+(?::\d+)?$|^\[native code\]$/;
+const LIBRARY_PATH = /[\\/]node_modules[\\/]|^node_modules[\\/]|^node:|^internal[\\/]|^native$|^\[native code\]$|^<anonymous>$|^index \d+$/;
+const NODE_MODULES_PREFIX = /(?<![^\s(@])(?:file:\/\/)?[^\s()]*[\\/]node_modules[\\/]/g;
+const HOME_DIRECTORY = /(?<![^\s(@])((?:file:\/\/)?(?:\/Users\/|\/home\/|[A-Za-z]:\\Users\\))[^\\/\s()]+(?=[\\/])/g;
+
+/**
+ * Parse V8 (`at fn (file:1:2)`), SpiderMonkey and JavaScriptCore (`fn@file:1:2`)
+ * stack traces into frames, top frame first. Lines that aren't frames
+ * (the message, "[native code]" markers without location) are skipped.
+ */
+export function parseStack(stack: string | undefined): StackFrame[] {
+  if (!stack) {
+    return [];
+  }
+
+  const frames: StackFrame[] = [];
+  for (const line of stack.split('\n')) {
+    const frame = parseV8Frame(line) ?? parseGeckoFrame(line);
+    if (frame) {
+      frames.push(frame);
+    }
+  }
+  return frames;
+}
+
+/**
+ * Make paths in a stack trace safe to share: the working directory is stripped,
+ * dependency paths start at `node_modules/` and user names in home directories
+ * become `<name>` (`/Users/<name>/...`)
+ */
+export function anonymizeStack(stack: string): string {
+  let result = stack;
+
+  const cwd = getWorkingDirectory();
+  if (cwd) {
+    for (const prefix of [`file://${cwd}/`, `${cwd}/`, `${cwd}\\`]) {
+      result = result.split(prefix).join('');
+    }
+  }
+
+  return result
+    .replace(NODE_MODULES_PREFIX, 'node_modules/')
+    .replace(HOME_DIRECTORY, '$1<name>');
+}
+
+function parseV8Frame(line: string): StackFrame | undefined {
+  const match = V8_FRAME.exec(line);
+  if (!match) {
+    return undefined;
+  }
+
+  const body = match[1].trim();
+  const open = body.indexOf(' (');
+  if (open === -1 || !body.endsWith(')')) {
+    return createFrame(undefined, body);
+  }
+
+  let location = body.substring(open + 2, body.length - 1);
+  // `at eval (eval at fn (file:1:2), <anonymous>:1:1)` - report where eval was called
+  if (location.startsWith('eval at ')) {
+    location = EVAL_ORIGIN.exec(location)?.[1] ?? location;
+  }
+  return createFrame(body.substring(0, open), location);
+}
+
+function parseGeckoFrame(line: string): StackFrame | undefined {
+  const trimmed = line.trim();
+  const at = trimmed.indexOf('@');
+  if (at === -1) {
+    // JavaScriptCore omits the function for top-level code
+    return /^\S+:\d+:\d+$/.test(trimmed) ? createFrame(undefined, trimmed) : undefined;
+  }
+
+  // Firefox appends the eval location: `fn@file:1:2 > eval:1:1`
+  const location = trimmed.substring(at + 1).split(' > ')[0];
+  // Not a frame, e.g. a message line containing an email address
+  if (!GECKO_LOCATION.test(location)) {
+    return undefined;
+  }
+  return createFrame(trimmed.substring(0, at) || undefined, location);
+}
+
+function createFrame(fn: string | undefined, location: string): StackFrame {
+  const [, file, line, column] = LOCATION.exec(location)!;
+  const frame: StackFrame = { inApp: !LIBRARY_PATH.test(file) };
+
+  if (fn) {
+    frame.function = fn;
+  }
+  if (file) {
+    frame.file = file;
+  }
+  if (line) {
+    frame.line = Number(line);
+  }
+  if (column) {
+    frame.column = Number(column);
+  }
+  return frame;
+}
+
+function getWorkingDirectory(): string | undefined {
+  if (typeof process === 'undefined' || typeof process.cwd !== 'function') {
+    return undefined;
+  }
+  const cwd = process.cwd().replace(/[\\/]+$/, '');
+  // Stripping "/" would mangle every path
+  return cwd.length > 1 ? cwd : undefined;
+}
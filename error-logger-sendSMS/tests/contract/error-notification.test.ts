@@ -34,7 +34,7 @@ describe('ErrorNotification Contract', () => {
   });
 
   it('should support all severity levels', () => {
-    const severities: ErrorSeverity[] = ['error', 'warning', 'info'];
+    const severities: ErrorSeverity[] = ['fatal', 'error', 'warning', 'info'];
 
     severities.forEach(severity => {
       const notification: ErrorNotification = {
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { ErrorLogger } from '../../src/index.js';
+import { BreadcrumbBuffer } from '../../src/utils/breadcrumb-buffer.js';
+import { MessageFormatter } from '../../src/utils/message-formatter.js';
+import type { Breadcrumb } from '../../src/types/index.js';
+
+vi.mock('axios');
+
+function sentEmbed(index: number): any {
+  return (vi.mocked(axios.post).mock.calls[index][1] as any).embeds[0];
+}
+
+function crumb(message: string): Breadcrumb {
+  return { timestamp: '2024-05-01T10:00:00.000Z', category: 'test', message };
+}
+
+describe('BreadcrumbBuffer', () => {
+  it('should keep the most recent entries, oldest first', () => {
+    const buffer = new BreadcrumbBuffer(3);
+    ['a', 'b', 'c', 'd', 'e'].forEach(message => buffer.add(crumb(message)));
+
+    expect(buffer.getAll().map(entry => entry.message)).toEqual(['c', 'd', 'e']);
+  });
+
+  it('should keep the latest entries when shrunk', () => {
+    const buffer = new BreadcrumbBuffer(5);
+    ['a', 'b', 'c', 'd'].forEach(message => buffer.add(crumb(message)));
+
+    buffer.resize(2);
+    buffer.add(crumb('e'));
+
+    expect(buffer.getAll().map(entry => entry.message)).toEqual(['d', 'e']);
+  });
+
+  it('should ignore entries with a size of 0', () => {
+    const buffer = new BreadcrumbBuffer(0);
+    buffer.add(crumb('a'));
+
+    expect(buffer.getAll()).toEqual([]);
+  });
+});
+
+describe('ErrorLogger breadcrumbs', () => {
+  let logger: ErrorLogger;
+
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockResolvedValue({ status: 204, data: '', headers: {} });
+    logger = new ErrorLogger({
+      discord: { webhookUrl: 'https://discord.com/api/webhooks/1/crumbs' },
+      deduplication: { enabled: false },
+      breadcrumbs: { maxBreadcrumbs: 2 }
+    });
+  });
+
+  afterEach(() => {
+    logger.configure({ breadcrumbs: { console: false } });
+  });
+
+  it('should attach the last breadcrumbs to exceptions as a timeline', async () => {
+    logger.addBreadcrumb({ category: 'auth', message: 'Signed in', timestamp: '2024-05-01T10:00:00.000Z' });
+    logger.addBreadcrumb({ category: 'cart', message: 'Added item', timestamp: '2024-05-01T10:00:05.000Z' });
+    logger.addBreadcrumb({ category: 'checkout', level: 'warning', message: 'Card declined', timestamp: '2024-05-01T10:00:09.000Z' });
+
+    await logger.captureException(new Error('Payment failed'));
+
+    const field = sentEmbed(0).fields.find((f: any) => f.name === 'Breadcrumbs');
+    expect(field.value).toBe('```\n10:00:05 [cart] Added item\n10:00:09 [checkout] WARNING Card declined\n```');
+  });
+
+  it('should not attach breadcrumbs to messages', async () => {
+    logger.addBreadcrumb({ category: 'auth', message: 'Signed in' });
+
+    await logger.captureMessage('Deploy finished');
+
+    expect(sentEmbed(0).fields.find((f: any) => f.name === 'Breadcrumbs')).toBeUndefined();
+  });
+
+  it('should sanitize breadcrumbs when they are recorded', async () => {
+    logger.addBreadcrumb({ category: 'auth', message: 'Login by ada@example.com' });
+
+    await logger.captureException(new Error('Boom'));
+
+    const field = sentEmbed(0).fields.find((f: any) => f.name === 'Breadcrumbs');
+    expect(field.value).toContain('Login by [REDACTED]');
+    expect(field.value).not.toContain('ada@example.com');
+  });
+
+  it('should record console calls when console instrumentation is enabled', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    logger.configure({ breadcrumbs: { console: true } });
+
+    console.warn('Cache miss for', { key: 'user:42' });
+    await logger.captureException(new Error('Boom'));
+
+    logger.configure({ breadcrumbs: { console: false } });
+    console.warn('not recorded');
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+
+    const field = sentEmbed(0).fields.find((f: any) => f.name === 'Breadcrumbs');
+    expect(field.value).toMatch(/\[console\] WARNING Cache miss for \{"key":"user:42"\}/);
+  });
+
+  it('should not record the logger\'s own console output', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    logger.configure({ breadcrumbs: { console: true } });
+
+    console.warn('[Discord] Retry attempt 1 after error:', 'Network down');
+    console.error('[ErrorLogger] Event processor failed:', new Error('Hook broke'));
+    console.warn('[Checkout] Slow response');
+    await logger.captureException(new Error('Boom'));
+
+    logger.configure({ breadcrumbs: { console: false } });
+    warn.mockRestore();
+    error.mockRestore();
+
+    const field = sentEmbed(0).fields.find((f: any) => f.name === 'Breadcrumbs');
+    expect(field.value).toContain('[Checkout] Slow response');
+    expect(field.value).not.toContain('Retry attempt');
+    expect(field.value).not.toContain('Event processor failed');
+  });
+
+  it('should record nothing when disabled', async () => {
+    logger.configure({ breadcrumbs: { enabled: false } });
+    logger.addBreadcrumb({ category: 'auth', message: 'Signed in' });
+
+    await logger.captureException(new Error('Boom'));
+
+    expect(sentEmbed(0).fields.find((f: any) => f.name === 'Breadcrumbs')).toBeUndefined();
+  });
+});
+
+describe('MessageFormatter breadcrumbs', () => {
+  it('should render a Slack timeline section', () => {
+    const payload = new MessageFormatter().formatForSlack({
+      message: 'Boom',
+      severity: 'error',
+      timestamp: '',
+      breadcrumbs: [{ timestamp: '2024-05-01T10:00:00.000Z', category: 'navigation', message: '/ → /cart' }]
+    });
+
+    const section = payload.attachments[0].blocks.find((block: any) => block.text?.text.startsWith('*Breadcrumbs:*'));
+    expect(section.text.text).toBe('*Breadcrumbs:*\n```10:00:00 [navigation] / → /cart```');
+  });
+});
@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { ErrorLogger } from '../../src/index.js';
+
+vi.mock('axios');
+
+const WEBHOOK_URL = 'https://discord.com/api/webhooks/1/browser';
+
+function lastEmbed(): any {
+  const calls = vi.mocked(axios.post).mock.calls;
+  return (calls[calls.length - 1][1] as any).embeds[0];
+}
+
+describe('Browser handlers', () => {
+  let logger: ErrorLogger;
+
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockResolvedValue({ status: 204, data: '', headers: {} });
+    window.onerror = null;
+
+    logger = new ErrorLogger({
+      discord: { webhookUrl: WEBHOOK_URL },
+      deduplication: { enabled: false }
+    });
+  });
+
+  afterEach(() => {
+    logger.uninstallBrowserHandlers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should capture window.onerror with source location and page context', async () => {
+    logger.installBrowserHandlers();
+
+    window.onerror!('Uncaught Error: Boom', 'https://app.example.com/main.js', 10, 5, new Error('Boom'));
+
+    await vi.waitFor(() => expect(axios.post).toHaveBeenCalled());
+    const fields = lastEmbed().fields;
+    expect(lastEmbed().title).toBe('[ERROR] Boom');
+    expect(fields).toContainEqual({ name: 'Source', value: 'https://app.example.com/main.js:10:5', inline: true });
+    expect(fields).toContainEqual({ name: 'URL', value: window.location.href, inline: true });
+  });
+
+  it('should chain to and restore an existing onerror handler', () => {
+    const previous = vi.fn().mockReturnValue(true);
+    window.onerror = previous;
+
+    logger.installBrowserHandlers();
+    expect(window.onerror!('Boom', 'main.js', 1, 1, new Error('Boom'))).toBe(true);
+    expect(previous).toHaveBeenCalledWith('Boom', 'main.js', 1, 1, expect.any(Error));
+
+    logger.uninstallBrowserHandlers();
+    expect(window.onerror).toBe(previous);
+  });
+
+  it('should capture unhandled promise rejections', async () => {
+    logger.installBrowserHandlers();
+
+    const event = Object.assign(new Event('unhandledrejection'), { reason: 'quota exceeded' });
+    window.dispatchEvent(event);
+
+    await vi.waitFor(() => expect(axios.post).toHaveBeenCalled());
+    expect(lastEmbed().title).toBe('[ERROR] quota exceeded');
+  });
+
+  it('should flush unfinished sends with keepalive fetch when the page is hidden', async () => {
+    vi.mocked(axios.post).mockImplementation(() => new Promise(() => {}));
+    const fetch = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal('fetch', fetch);
+    logger.installBrowserHandlers();
+
+    void logger.captureMessage('Checkout failed', 'error');
+    await vi.waitFor(() => expect(axios.post).toHaveBeenCalled());
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(fetch).toHaveBeenCalledWith(WEBHOOK_URL, expect.objectContaining({ method: 'POST', keepalive: true }));
+    expect(JSON.parse(fetch.mock.calls[0][1].body).embeds[0].title).toBe('[ERROR] Checkout failed');
+  });
+
+  it('should flush the pending digest with sendBeacon when fetch is unavailable', async () => {
+    const sendBeacon = vi.fn().mockReturnValue(true);
+    vi.stubGlobal('fetch', undefined);
+    Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+    Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true });
+
+    logger.configure({ digest: { enabled: true } });
+    logger.installBrowserHandlers();
+    await logger.captureMessage('Slow render', 'warning');
+    expect(axios.post).not.toHaveBeenCalled();
+
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(sendBeacon).toHaveBeenCalledWith(WEBHOOK_URL, expect.any(Blob));
+    logger.configure({ digest: { enabled: false } });
+    delete (navigator as any).sendBeacon;
+    delete (document as any).visibilityState;
+  });
+});
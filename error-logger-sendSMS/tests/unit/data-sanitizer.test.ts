@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { DataSanitizer } from '../../src/utils/data-sanitizer.js';
+import { ErrorLogger } from '../../src/index.js';
 
 describe('DataSanitizer', () => {
   it('should sanitize password fields', () => {
@@ -79,3 +80,75 @@ describe('DataSanitizer', () => {
     expect(result.user.credentials.password).toBe('[REDACTED]');
   });
 });
+
+describe('DataSanitizer masking strategies', () => {
+  it('should apply strategies per default and custom pattern', () => {
+    const sanitizer = new DataSanitizer({
+      customPatterns: ['order-\\d+'],
+      patternStrategies: {
+        creditCard: { keepLast: 4 },
+        email: { keepFirst: 2 },
+        'order-\\d+': 'remove'
+      }
+    });
+
+    expect(sanitizer.sanitize('Card 4111-1111-1111-1234 declined')).toBe('Card ***************1234 declined');
+    expect(sanitizer.sanitize('Mail to jo@example.com for order-42')).toBe('Mail to jo************ for ');
+    expect(sanitizer.sanitize('SSN 123-45-6789')).toBe('SSN [REDACTED]');
+  });
+
+  it('should hash values with the key so they can be correlated', () => {
+    const sanitizer = new DataSanitizer({ strategy: 'hash', hashKey: 'k1' });
+    const other = new DataSanitizer({ strategy: 'hash', hashKey: 'k2' });
+
+    const first = sanitizer.sanitize({ apiKey: 'abc123' }).apiKey;
+
+    expect(first).toMatch(/^\[HMAC:[0-9a-f]{16}\]$/);
+    expect(sanitizer.sanitize({ apiKey: 'abc123' }).apiKey).toBe(first);
+    expect(sanitizer.sanitize({ apiKey: 'abc124' }).apiKey).not.toBe(first);
+    expect(other.sanitize({ apiKey: 'abc123' }).apiKey).not.toBe(first);
+    expect(new DataSanitizer({ strategy: 'hash' }).sanitize({ apiKey: 'abc123' }).apiKey).toBe('[REDACTED]');
+  });
+
+  it('should apply strategies per key and key path', () => {
+    const sanitizer = new DataSanitizer({
+      hashKey: 'secret-key',
+      keyStrategies: {
+        'metadata.user.email': 'hash',
+        sessionId: { keepFirst: 4 },
+        cookie: 'remove',
+        password: { keepLast: 2 }
+      }
+    });
+
+    const result = sanitizer.sanitize({
+      metadata: {
+        user: { email: 'ann@example.com', id: 7 },
+        contact: { email: 'ann@example.com' },
+        requests: [{ sessionId: 'abcd1234', cookie: 'sid=1', Password: 'hunter2' }]
+      }
+    });
+
+    expect(result.metadata.user.email).toMatch(/^\[HMAC:[0-9a-f]{16}\]$/);
+    expect(result.metadata.user.id).toBe(7);
+    expect(result.metadata.contact.email).toBe('[REDACTED]');
+    expect(result.metadata.requests[0]).toEqual({ sessionId: 'abcd****', Password: '*****r2' });
+  });
+
+  it('should mask short values and nested objects completely', () => {
+    const sanitizer = new DataSanitizer({ keyStrategies: { pin: { keepLast: 4 }, secret: { keepFirst: 1 } } });
+
+    expect(sanitizer.sanitize({ pin: 1234, secret: { nested: 'value' } })).toEqual({ pin: '****', secret: '[REDACTED]' });
+  });
+
+  it('should reject invalid strategies in the logger config', () => {
+    const discord = { webhookUrl: 'https://discord.com/api/webhooks/1/mask' };
+
+    expect(() => new ErrorLogger({ discord, sanitization: { enabled: true, strategy: 'hash' } }))
+      .toThrow('sanitization.strategy: sanitization.hashKey is required for the hash strategy');
+    expect(() => new ErrorLogger({ discord, sanitization: { enabled: true, keyStrategies: { pin: {} } } }))
+      .toThrow('sanitization.keyStrategies["pin"] must set keepFirst or keepLast');
+    expect(() => new ErrorLogger({ discord, sanitization: { enabled: true, patternStrategies: { email: { keepLast: -1 } } } }))
+      .toThrow('keepFirst and keepLast must be non-negative integers');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { ErrorLogger } from '../../src/index.js';
+import { RateLimitError } from '../../src/utils/rate-limiter.js';
+import type { NotificationProvider } from '../../src/types/index.js';
+
+vi.mock('axios');
+
+const DISCORD_URL = 'https://discord.com/api/webhooks/1/report';
+const SLACK_URL = 'https://hooks.slack.com/services/T/B/report';
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+function postsTo(url: string): any[] {
+  return vi.mocked(axios.post).mock.calls.filter(call => call[0] === url).map(call => call[1]);
+}
+
+describe('ErrorLogger delivery reports', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockImplementation(async (url: string) =>
+      ({ status: 200, data: url === SLACK_URL ? 'ok' : '', headers: {} }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should report the outcome on every channel and quote the id in messages', async () => {
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: DISCORD_URL },
+      slack: { webhookUrl: SLACK_URL },
+      retry: { maxAttempts: 2, baseDelay: 100, jitter: false },
+      deduplication: { enabled: false }
+    });
+    vi.mocked(axios.post)
+      .mockImplementationOnce(async () => { throw new Error('socket hang up'); });
+
+    const report = await logger.captureException(new Error('Checkout failed'));
+
+    expect(report.id).toMatch(UUID);
+    expect(report.reason).toBeUndefined();
+    expect(report.deliveries).toEqual([
+      { channel: 'discord:0', provider: 'Discord', status: 'sent', attempts: 2 },
+      { channel: 'slack:0', provider: 'Slack', status: 'sent', attempts: 1 }
+    ]);
+    expect(postsTo(DISCORD_URL)[1].embeds[0].footer.text).toContain(`Event ID: ${report.id}`);
+    const context = postsTo(SLACK_URL)[0].attachments[0].blocks.find((block: any) => block.type === 'context');
+    expect(context.elements).toContainEqual({ type: 'mrkdwn', text: `Event ID: ${report.id}` });
+  });
+
+  it('should report failures, rate limits and skipped channels', async () => {
+    vi.mocked(axios.post).mockRejectedValue(new Error('Slack is down'));
+    const limited: NotificationProvider = {
+      send: vi.fn().mockRejectedValue(new RateLimitError('Rate limit queue is full', 1000)),
+      validateConfig: () => true,
+      getName: () => 'Pager'
+    };
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: DISCORD_URL, minSeverity: 'fatal' },
+      slack: { webhookUrl: SLACK_URL },
+      providers: [limited],
+      retry: { maxAttempts: 2, baseDelay: 100, jitter: false }
+    });
+
+    const report = await logger.captureMessage('Queue backlog', 'warning');
+
+    expect(report.deliveries).toEqual([
+      { channel: 'discord:0', provider: 'Discord', status: 'skipped', attempts: 0 },
+      { channel: 'slack:0', provider: 'Slack', status: 'failed', attempts: 2, lastError: 'Slack is down' },
+      { channel: 'pager:0', provider: 'Pager', status: 'rate-limited', attempts: 1, lastError: 'Rate limit queue is full' }
+    ]);
+  });
+
+  it('should give the reason when no channel was tried', async () => {
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: DISCORD_URL },
+      ignoreErrors: ['ResizeObserver'],
+      deduplication: { enabled: true },
+      beforeSend: (notification) => ({ ...notification, id: 'rewritten' })
+    });
+
+    const ignored = await logger.captureException(new Error('ResizeObserver loop limit exceeded'));
+    const first = await logger.captureException(new Error('Timeout'));
+    const repeat = await logger.captureException(new Error('Timeout'));
+
+    expect(ignored).toMatchObject({ reason: 'ignored', deliveries: [{ status: 'skipped', attempts: 0 }] });
+    expect(first.id).toMatch(UUID);
+    expect(first.id).not.toBe(repeat.id);
+    expect(repeat.reason).toBe('duplicate');
+    expect(postsTo(DISCORD_URL)[0].embeds[0].footer.text).toContain(`Event ID: ${first.id}`);
+
+    await logger.close();
+    expect((await logger.captureMessage('Late', 'error')).reason).toBe('closed');
+  });
+
+  it('should give duplicate summaries their own id', async () => {
+    const logger = new ErrorLogger({ discord: { webhookUrl: DISCORD_URL }, deduplication: { enabled: true } });
+
+    const first = await logger.captureException(new Error('Timeout'));
+    await logger.captureException(new Error('Timeout'));
+    await logger.flush();
+
+    const footers = postsTo(DISCORD_URL).map(payload => payload.embeds[0].footer.text);
+    expect(footers).toHaveLength(2);
+    const summaryId = footers[1].match(/Event ID: ([0-9a-f-]+)/)[1];
+    expect(summaryId).toMatch(UUID);
+    expect(summaryId).not.toBe(first.id);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { DigestBuffer } from '../../src/utils/digest-buffer.js';
+import { MessageFormatter } from '../../src/utils/message-formatter.js';
+import { ErrorLogger } from '../../src/index.js';
+import type { ErrorNotification } from '../../src/types/index.js';
+
+vi.mock('axios');
+
+function createNotification(overrides: Partial<ErrorNotification> = {}): ErrorNotification {
+  return {
+    message: 'Slow query',
+    severity: 'warning',
+    timestamp: new Date().toISOString(),
+    environment: 'production',
+    url: 'https://app.example.com/orders',
+    ...overrides
+  };
+}
+
+describe('DigestBuffer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only buffer notifications below the severity threshold', () => {
+    const buffer = new DigestBuffer({ enabled: true, severityBelow: 'error' }, vi.fn());
+
+    expect(buffer.add(createNotification({ severity: 'info' }))).toBe(true);
+    expect(buffer.add(createNotification({ severity: 'warning' }))).toBe(true);
+    expect(buffer.add(createNotification({ severity: 'error' }))).toBe(false);
+    expect(buffer.getPendingCount()).toBe(2);
+  });
+
+  it('should not buffer anything when disabled', () => {
+    const buffer = new DigestBuffer({ enabled: false }, vi.fn());
+
+    expect(buffer.add(createNotification())).toBe(false);
+  });
+
+  it('should summarize counts, occurrences and top environments and URLs', () => {
+    const buffer = new DigestBuffer({ enabled: true }, vi.fn());
+
+    buffer.add(createNotification({ timestamp: '2024-01-01T00:00:00.000Z' }));
+    buffer.add(createNotification({ timestamp: '2024-01-01T00:02:00.000Z', environment: 'staging' }));
+    buffer.add(createNotification({ message: 'Cache miss', severity: 'info', url: 'https://app.example.com/cart' }));
+
+    const digest = buffer.drain()!;
+
+    expect(digest.severity).toBe('warning');
+    expect(digest.environment).toBeUndefined();
+    expect(digest.digest).toMatchObject({
+      total: 3,
+      periodStart: '2024-01-01T00:00:00.000Z',
+      entries: [
+        { message: 'Slow query', count: 2, firstSeen: '2024-01-01T00:00:00.000Z', lastSeen: '2024-01-01T00:02:00.000Z' },
+        { message: 'Cache miss', count: 1 }
+      ],
+      environments: [{ value: 'production', count: 2 }, { value: 'staging', count: 1 }],
+      urls: [{ value: 'https://app.example.com/orders', count: 2 }, { value: 'https://app.example.com/cart', count: 1 }]
+    });
+    expect(buffer.getPendingCount()).toBe(0);
+    expect(buffer.drain()).toBeUndefined();
+  });
+
+  it('should emit the digest after the interval', () => {
+    vi.useFakeTimers();
+    const onDigest = vi.fn();
+    const buffer = new DigestBuffer({ enabled: true, intervalMs: 60000 }, onDigest);
+
+    buffer.add(createNotification());
+    buffer.add(createNotification());
+    vi.advanceTimersByTime(59999);
+    expect(onDigest).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onDigest).toHaveBeenCalledTimes(1);
+    expect(onDigest.mock.calls[0][0].digest.total).toBe(2);
+  });
+});
+
+describe('MessageFormatter digest layouts', () => {
+  const formatter = new MessageFormatter();
+  const buffer = new DigestBuffer({ enabled: true }, vi.fn());
+  for (let i = 0; i < 12; i++) {
+    buffer.add(createNotification({ message: `Warning ${i}` }));
+  }
+  const digest = buffer.drain()!;
+
+  it('should list messages as Discord embed fields', () => {
+    const embed = formatter.formatForDiscord(digest).embeds[0];
+
+    expect(embed.title).toBe('[DIGEST] 12 notifications (12 distinct messages)');
+    expect(embed.fields[0].name).toBe('1× [WARNING] Warning 0');
+    expect(embed.fields.map((field: any) => field.name)).toContain('Top URLs');
+    expect(embed.footer.text).toBe('…and 2 more messages');
+  });
+
+  it('should list messages as Slack sections', () => {
+    const blocks = formatter.formatForSlack(digest).attachments[0].blocks;
+
+    expect(blocks[0].text.text).toBe('DIGEST: 12 notifications (12 distinct messages)');
+    expect(blocks.filter((block: any) => block.type === 'section' && block.text)).toHaveLength(10);
+    expect(blocks[blocks.length - 1].elements[0].text).toBe('…and 2 more messages');
+  });
+});
+
+describe('ErrorLogger digest mode', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockResolvedValue({ status: 204, data: '', headers: {} });
+  });
+
+  it('should send errors immediately and batch the rest into one digest', async () => {
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: 'https://discord.com/api/webhooks/1/digest' },
+      deduplication: { enabled: false },
+      digest: { enabled: true, severityBelow: 'error', intervalMs: 60000 }
+    });
+
+    await logger.captureMessage('Slow query', 'warning');
+    await logger.captureMessage('Slow query', 'warning');
+    await logger.captureMessage('Cache miss', 'info');
+    await logger.captureException(new Error('Database down'));
+
+    expect(axios.post).toHaveBeenCalledTimes(1);
+
+    await logger.flushDigest();
+
+    expect(axios.post).toHaveBeenCalledTimes(2);
+    const embed = vi.mocked(axios.post).mock.calls[1][1] as any;
+    expect(embed.embeds[0].title).toBe('[DIGEST] 3 notifications (2 distinct messages)');
+
+    logger.configure({ digest: { enabled: false } });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { EmailProvider } from '../../src/providers/email-provider.js';
+import { RetryManager } from '../../src/utils/retry-manager.js';
+import { MessageFormatter } from '../../src/utils/message-formatter.js';
+import { SmtpClient } from '../../src/utils/smtp-client.js';
+import type { SmtpClientOptions } from '../../src/utils/smtp-client.js';
+import type { EmailConfig, ErrorNotification } from '../../src/types/index.js';
+
+interface CapturedMail {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * Minimal SMTP catcher: accepts every command and records the DATA section
+ */
+function createSmtpCatcher(mails: CapturedMail[]): net.Server {
+  return net.createServer(socket => {
+    const mail: CapturedMail = { commands: [], data: '' };
+    let inData = false;
+    let buffer = '';
+
+    socket.write('220 localhost ESMTP test\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            mails.push(mail);
+            socket.write('250 OK queued\r\n');
+          } else {
+            mail.data += line + '\r\n';
+          }
+          continue;
+        }
+
+        mail.commands.push(line);
+        if (line.startsWith('EHLO')) {
+          socket.write('250-localhost\r\n250 AUTH PLAIN LOGIN\r\n');
+        } else if (line.startsWith('AUTH PLAIN')) {
+          socket.write('235 Authenticated\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+}
+
+function decodeParts(data: string): string[] {
+  return data
+    .split(/--[^\r\n]+\r\n/)
+    .filter(part => part.includes('Content-Transfer-Encoding: base64'))
+    .map(part => Buffer.from(part.split('\r\n\r\n')[1].replace(/\s+/g, ''), 'base64').toString('utf8'));
+}
+
+describe('EmailProvider', () => {
+  let server: net.Server;
+  let port: number;
+  let mails: CapturedMail[] = [];
+
+  beforeAll(async () => {
+    server = createSmtpCatcher(mails);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mails.length = 0;
+  });
+
+  function createProvider(overrides: Partial<EmailConfig> = {}): EmailProvider {
+    return new EmailProvider(
+      {
+        host: '127.0.0.1',
+        port,
+        startTls: 'disabled',
+        from: 'errors@example.com',
+        to: ['oncall@example.com'],
+        cc: ['lead@example.com'],
+        ...overrides
+      },
+      new RetryManager({ maxAttempts: 1 })
+    );
+  }
+
+  const notification: ErrorNotification = {
+    message: 'Payment <failed>',
+    severity: 'error',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    stack: 'Error: Payment failed\n    at charge (/app/billing.ts:1:1)',
+    environment: 'production',
+    url: 'https://shop.example.com/checkout',
+    metadata: { orderId: 42 }
+  };
+
+  it('should deliver a multipart message over SMTP', async () => {
+    await createProvider({ auth: { user: 'bot', pass: 'secret' } }).send(notification);
+
+    expect(mails).toHaveLength(1);
+    const [mail] = mails;
+    expect(mail.commands).toContain('MAIL FROM:<errors@example.com>');
+    expect(mail.commands).toContain('RCPT TO:<oncall@example.com>');
+    expect(mail.commands).toContain('RCPT TO:<lead@example.com>');
+    expect(mail.commands.some(command => command.startsWith('AUTH PLAIN '))).toBe(true);
+    expect(mail.data).toContain('Subject: [ERROR] [production] Payment <failed>');
+    expect(mail.data).toContain('Cc: lead@example.com');
+
+    const [text, html] = decodeParts(mail.data);
+    expect(text).toContain('URL: https://shop.example.com/checkout');
+    expect(text).toContain('at charge (/app/billing.ts:1:1)');
+    expect(html).toContain('Payment &lt;failed&gt;');
+    expect(html).toContain('&quot;orderId&quot;: 42');
+  });
+
+  it('should fail when STARTTLS is required but not offered', async () => {
+    await expect(createProvider({ startTls: 'required' }).send(notification))
+      .rejects.toThrow('SMTP server does not support STARTTLS');
+  });
+
+  it('should skip notifications below the minimum severity', async () => {
+    await createProvider({ minSeverity: 'error' }).send({ ...notification, severity: 'warning' });
+
+    expect(mails).toHaveLength(0);
+  });
+
+  it('should refuse plain-text credentials to remote hosts', () => {
+    expect(() => createProvider({ host: 'smtp.example.com', auth: { user: 'bot', pass: 'secret' } }))
+      .toThrow('Invalid Email configuration');
+    expect(() => createProvider({ to: ['not an address'] })).toThrow('Invalid Email configuration');
+  });
+});
+
+describe('SmtpClient', () => {
+  const message = { from: 'errors@example.com', to: ['oncall@example.com'], subject: 'Test', text: 'text', html: '<p>html</p>' };
+
+  function createClient(overrides: Partial<SmtpClientOptions>): SmtpClient {
+    return new SmtpClient({
+      host: '127.0.0.1',
+      port: 25,
+      secure: false,
+      startTls: 'opportunistic',
+      rejectUnauthorized: true,
+      timeout: 10000,
+      clientName: 'test',
+      ...overrides
+    });
+  }
+
+  it('should not authenticate to a remote host when STARTTLS is not offered', async () => {
+    // 127.0.0.2 is loopback on Linux but not one of the names treated as local
+    const mails: CapturedMail[] = [];
+    const server = createSmtpCatcher(mails);
+    const commands: string[] = [];
+    server.on('connection', socket => socket.on('data', chunk => commands.push(chunk.toString())));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.2', resolve));
+
+    try {
+      const client = createClient({
+        host: '127.0.0.2',
+        port: (server.address() as AddressInfo).port,
+        auth: { user: 'bot', pass: 'secret' }
+      });
+
+      await expect(client.send(message)).rejects.toThrow('Refusing to send SMTP credentials over an unencrypted connection');
+      expect(commands.join('')).not.toContain('AUTH');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should time out while the connection is still being set up', async () => {
+    // Accepts TCP but never answers the TLS handshake
+    const sockets: net.Socket[] = [];
+    const server = net.createServer(socket => sockets.push(socket));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const client = createClient({ port: (server.address() as AddressInfo).port, secure: true, timeout: 100 });
+
+      await expect(client.send(message)).rejects.toThrow('SMTP connection timed out');
+    } finally {
+      sockets.forEach(socket => socket.destroy());
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
+describe('MessageFormatter.formatForEmail', () => {
+  it('should render matching HTML and plain-text bodies', () => {
+    const formatter = new MessageFormatter();
+    const email = formatter.formatForEmail({
+      message: 'Disk full',
+      severity: 'warning',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      environment: 'staging'
+    });
+
+    expect(email.subject).toBe('[WARNING] [staging] Disk full');
+    expect(email.text).toContain('Environment: staging');
+    expect(email.html).toContain('<td>staging</td>');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ErrorGrouper } from '../../src/utils/error-grouper.js';
+import { computeFingerprint, normalizeForFingerprint } from '../../src/utils/fingerprint.js';
+import type { ErrorNotification } from '../../src/types/index.js';
+
+function createNotification(overrides: Partial<ErrorNotification> = {}): ErrorNotification {
+  return {
+    message: 'User 42 not found',
+    severity: 'error',
+    timestamp: new Date().toISOString(),
+    stack: 'Error: User 42 not found\n    at findUser (/app/src/users.ts:10:5)\n    at handler (/app/src/routes.ts:22:9)',
+    ...overrides
+  };
+}
+
+describe('Fingerprint', () => {
+  it('should strip UUIDs, numbers and hex ids', () => {
+    expect(normalizeForFingerprint('Order 550e8400-e29b-41d4-a716-446655440000 failed')).toBe('Order <uuid> failed');
+    expect(normalizeForFingerprint('Object 0x7ffe at 5f2b9c1d3e')).toBe('Object <hex> at <hex>');
+    expect(normalizeForFingerprint('Retry 3 of 5')).toBe('Retry <n> of <n>');
+  });
+
+  it('should group errors differing only by ids and line numbers', () => {
+    const a = createNotification();
+    const b = createNotification({
+      message: 'User 7 not found',
+      stack: 'Error: User 7 not found\n    at findUser (/app/src/users.ts:11:3)\n    at handler (/app/src/routes.ts:22:9)'
+    });
+
+    expect(computeFingerprint(a)).toBe(computeFingerprint(b));
+  });
+
+  it('should separate errors from different stack frames', () => {
+    const a = createNotification();
+    const b = createNotification({ stack: 'Error: User 42 not found\n    at loadUser (/app/src/other.ts:1:1)' });
+
+    expect(computeFingerprint(a)).not.toBe(computeFingerprint(b));
+  });
+
+  it('should honor metadata fingerprint override', () => {
+    const notification = createNotification({ metadata: { fingerprint: 'checkout-timeout' } });
+
+    expect(computeFingerprint(notification)).toBe('checkout-timeout');
+  });
+});
+
+describe('ErrorGrouper', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should suppress repeats within the window and emit one summary', () => {
+    vi.useFakeTimers();
+    const onSummary = vi.fn();
+    const grouper = new ErrorGrouper({ enabled: true, windowMs: 60000 }, onSummary);
+
+    const results = Array.from({ length: 4 }, () => {
+      const notification = createNotification();
+      notification.fingerprint = grouper.fingerprint(notification);
+      return grouper.track(notification);
+    });
+
+    expect(results).toEqual([true, false, false, false]);
+    expect(onSummary).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(60000);
+
+    expect(onSummary).toHaveBeenCalledTimes(1);
+    expect(onSummary.mock.calls[0][0].occurrences).toMatchObject({ count: 3, windowMs: 60000 });
+  });
+
+  it('should not emit a summary when nothing was suppressed', () => {
+    vi.useFakeTimers();
+    const onSummary = vi.fn();
+    const grouper = new ErrorGrouper({ enabled: true, windowMs: 60000 }, onSummary);
+
+    const notification = createNotification();
+    notification.fingerprint = grouper.fingerprint(notification);
+    grouper.track(notification);
+    vi.advanceTimersByTime(60000);
+
+    expect(onSummary).not.toHaveBeenCalled();
+  });
+
+  it('should send everything when disabled', () => {
+    const grouper = new ErrorGrouper({ enabled: false }, vi.fn());
+    const notification = createNotification();
+    notification.fingerprint = grouper.fingerprint(notification);
+
+    expect(grouper.track(notification)).toBe(true);
+    expect(grouper.track(notification)).toBe(true);
+  });
+
+  it('should be opt-in', () => {
+    const grouper = new ErrorGrouper({}, vi.fn());
+    const notification = createNotification();
+    notification.fingerprint = grouper.fingerprint(notification);
+
+    expect(grouper.track(notification)).toBe(true);
+    expect(grouper.track(notification)).toBe(true);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { ErrorLogger } from '../../src/index.js';
+import { normalizeError } from '../../src/utils/error-normalizer.js';
+import { MessageFormatter } from '../../src/utils/message-formatter.js';
+
+vi.mock('axios');
+
+function sentEmbed(index: number): any {
+  return (vi.mocked(axios.post).mock.calls[index][1] as any).embeds[0];
+}
+
+function sentSlackBlocks(index: number): any[] {
+  return (vi.mocked(axios.post).mock.calls[index][1] as any).attachments[0].blocks;
+}
+
+describe('normalizeError', () => {
+  it('should follow the cause chain and stop at cycles', () => {
+    const root = new TypeError('socket closed');
+    const middle = new Error('query failed', { cause: root });
+    const top = new Error('checkout failed', { cause: middle });
+    (root as any).cause = top;
+
+    const { error, causes } = normalizeError(top);
+
+    expect(error).toMatchObject({ type: 'Error', message: 'checkout failed' });
+    expect(causes.map(cause => `${cause.type}: ${cause.message}`)).toEqual([
+      'Error: query failed',
+      'TypeError: socket closed'
+    ]);
+  });
+
+  it('should describe AggregateError members', () => {
+    const aggregate = new AggregateError([new RangeError('too big'), 'plain reason'], 'All uploads failed');
+
+    const { error, errors } = normalizeError(aggregate);
+
+    expect(error).toMatchObject({ type: 'AggregateError', message: 'All uploads failed' });
+    expect(errors).toMatchObject([{ type: 'RangeError', message: 'too big' }, { message: 'plain reason' }]);
+  });
+
+  it('should extract custom properties', () => {
+    const error = Object.assign(new Error('connect ECONNREFUSED'), {
+      code: 'ECONNREFUSED',
+      errno: -111,
+      details: { host: 'db', port: 5432 },
+      retry: () => undefined
+    });
+
+    expect(normalizeError(error).error.properties).toEqual({
+      code: 'ECONNREFUSED',
+      errno: -111,
+      details: '{"host":"db","port":5432}'
+    });
+  });
+
+  it('should handle thrown non-Error values', () => {
+    const circular: any = { reason: 'loop' };
+    circular.self = circular;
+
+    expect(normalizeError(null).error).toEqual({ type: 'null', message: 'null' });
+    expect(normalizeError(undefined).error).toEqual({ type: 'undefined', message: 'undefined' });
+    expect(normalizeError(42).error).toEqual({ type: 'number', message: '42' });
+    expect(normalizeError('plain message').error).toEqual({ message: 'plain message' });
+    expect(normalizeError({ message: 'Not found', statusCode: 404 }).error)
+      .toEqual({ type: 'Object', message: 'Not found', properties: { statusCode: 404 } });
+    expect(normalizeError(circular).error).toEqual({ type: 'Object', message: '[Object]' });
+  });
+});
+
+describe('ErrorLogger error details', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockResolvedValue({ status: 204, data: '', headers: {} });
+  });
+
+  it('should render causes, aggregated errors and properties for Discord', async () => {
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: 'https://discord.com/api/webhooks/1/causes' },
+      deduplication: { enabled: false }
+    });
+    const cause = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    const error = new AggregateError([new Error('replica 1 down')], 'All replicas failed', { cause });
+
+    await logger.captureException(error);
+
+    const fields = sentEmbed(0).fields;
+    const causedBy = fields.find((f: any) => f.name === 'Caused by');
+    expect(causedBy.value).toMatch(/^Error: connect ECONNREFUSED\n/);
+    expect(causedBy.value).toContain('code: ECONNREFUSED');
+    expect(fields.find((f: any) => f.name === 'Errors (1)').value).toBe('1. Error: replica 1 down');
+  });
+
+  it('should keep large Discord embeds within the size and field limits', () => {
+    const long = (label: string) => `${label}: ${'x'.repeat(1100)}`;
+    const details = (message: string) => ({ type: 'Error', message, stack: `Error: ${message}\n${'    at step (/app/src/job.ts:1:1)\n'.repeat(40)}` });
+    const contexts = Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`ctx${i}`, { value: long('context') }]));
+
+    const embed = new MessageFormatter().formatForDiscord({
+      message: 'Checkout failed',
+      severity: 'error',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      stack: details('Checkout failed').stack,
+      causes: [1, 2, 3, 4, 5].map(n => details(long(`cause ${n}`))),
+      errors: [details('replica down')],
+      errorProperties: { code: long('code') },
+      contexts,
+      metadata: { payload: long('metadata') },
+      environment: 'production'
+    }).embeds[0];
+
+    const length = embed.title.length + embed.fields.reduce((total: number, f: any) => total + f.name.length + f.value.length, 0);
+    expect(length).toBeLessThanOrEqual(6000);
+    expect(embed.fields.length).toBeLessThanOrEqual(25);
+    expect(embed.fields.every((f: any) => f.value.length <= 1024 && f.priority === undefined)).toBe(true);
+    const names = embed.fields.map((f: any) => f.name);
+    expect(names).toEqual(expect.arrayContaining(['Stack Trace', 'Environment', 'Caused by']));
+    expect(names).not.toContain('ctx19');
+  });
+
+  it('should keep large Slack messages within the block and section limits', () => {
+    const long = (label: string) => `${label}: ${'x'.repeat(3100)}`;
+    const details = (message: string) => ({ type: 'Error', message, stack: `Error: ${message}\n${'    at step (/app/src/job.ts:1:1)\n'.repeat(120)}` });
+    const contexts = Object.fromEntries(Array.from({ length: 60 }, (_, i) => [`ctx${i}`, { value: long('context') }]));
+
+    const { blocks } = new MessageFormatter().formatForSlack({
+      message: long('Checkout failed'),
+      severity: 'error',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      stack: details('Checkout failed').stack,
+      causes: [1, 2, 3, 4, 5].map(n => details(long(`cause ${n}`))),
+      errorProperties: { code: long('code') },
+      contexts,
+      metadata: { payload: long('metadata') },
+      environment: long('production')
+    }).attachments[0];
+
+    expect(blocks.length).toBeLessThanOrEqual(50);
+    expect(blocks[0].text.text.length).toBeLessThanOrEqual(150);
+    expect(blocks.every((b: any) => b.priority === undefined && (b.text?.text.length ?? 0) <= 3000)).toBe(true);
+    expect(blocks.flatMap((b: any) => b.fields ?? []).every((f: any) => f.text.length <= 2000)).toBe(true);
+    const texts = blocks.map((b: any) => b.text?.text ?? '');
+    expect(texts.some((t: string) => t.startsWith('*Stack Trace:*') && t.endsWith('```'))).toBe(true);
+    expect(texts.filter((t: string) => t.startsWith('*Caused by:*'))).toHaveLength(5);
+    expect(texts.some((t: string) => t.startsWith('*ctx59:*'))).toBe(false);
+    expect(blocks[blocks.length - 1].type).toBe('context');
+  });
+
+  it('should show the type of thrown non-Error values for Slack', async () => {
+    vi.mocked(axios.post).mockResolvedValue({ status: 200, data: 'ok', headers: {} });
+    const logger = new ErrorLogger({
+      slack: { webhookUrl: 'https://hooks.slack.com/services/T/B/causes' },
+      deduplication: { enabled: false }
+    });
+
+    await logger.captureException({ message: 'Request failed', statusCode: 502 });
+
+    const blocks = sentSlackBlocks(0);
+    expect(blocks[0].text.text).toBe('ERROR: Request failed');
+    expect(blocks.find((block: any) => block.fields)?.fields).toContainEqual({ type: 'mrkdwn', text: '*Type:*\nObject' });
+    expect(blocks.some((block: any) => block.text?.text === '*Error Properties:*\nstatusCode: 502')).toBe(true);
+  });
+
+  it('should capture strings without a stack', async () => {
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: 'https://discord.com/api/webhooks/1/causes' },
+      deduplication: { enabled: false }
+    });
+
+    await logger.captureException('Something odd happened');
+
+    const embed = sentEmbed(0);
+    expect(embed.title).toBe('[ERROR] Something odd happened');
+    expect(embed.fields.find((f: any) => f.name === 'Stack Trace')).toBeUndefined();
+  });
+});
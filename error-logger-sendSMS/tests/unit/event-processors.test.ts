@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { ErrorLogger } from '../../src/index.js';
+import type { ErrorNotification } from '../../src/types/index.js';
+
+vi.mock('axios');
+
+const DISCORD_URL = 'https://discord.com/api/webhooks/1/hooks';
+const SLACK_URL = 'https://hooks.slack.com/services/T/B/hooks';
+
+function postsTo(url: string): any[] {
+  return vi.mocked(axios.post).mock.calls.filter(call => call[0] === url).map(call => call[1]);
+}
+
+describe('ErrorLogger event processors', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockImplementation(async (url: string) =>
+      ({ status: 200, data: url === SLACK_URL ? 'ok' : '', headers: {} }));
+  });
+
+  it('should run async processors in order before beforeSend, on sanitized data', async () => {
+    const seen: string[] = [];
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: DISCORD_URL },
+      deduplication: { enabled: false },
+      eventProcessors: [
+        async (notification) => {
+          seen.push(`first:${notification.metadata?.password}`);
+          return { ...notification, tags: { build: 'abc123' } };
+        },
+        (notification) => {
+          seen.push(`second:${notification.tags?.build}`);
+          return notification;
+        }
+      ],
+      beforeSend: (notification) => {
+        seen.push('beforeSend');
+        return { ...notification, message: `${notification.message} (rewritten)` };
+      }
+    });
+
+    await logger.captureException(new Error('Boom'), { password: 'hunter2' });
+
+    expect(seen).toEqual(['first:[REDACTED]', 'second:abc123', 'beforeSend']);
+    const embed = postsTo(DISCORD_URL)[0].embeds[0];
+    expect(embed.title).toBe('[ERROR] Boom (rewritten)');
+    expect(embed.fields.find((f: any) => f.name === 'Tags').value).toBe('build: abc123');
+  });
+
+  it('should sanitize only once so hashed values match with and without hooks', async () => {
+    const sanitization = { enabled: true, hashKey: 'k', keyStrategies: { 'metadata.email': 'hash' as const } };
+    const plain = new ErrorLogger({ discord: { webhookUrl: DISCORD_URL }, sanitization });
+    const hooked = new ErrorLogger({
+      discord: { webhookUrl: DISCORD_URL },
+      sanitization,
+      beforeSend: (notification) => notification
+    });
+
+    await plain.captureMessage('Signup failed', 'error', { email: 'ann@example.com' });
+    await hooked.captureMessage('Signup failed', 'error', { email: 'ann@example.com' });
+
+    const metadata = postsTo(DISCORD_URL).map(payload =>
+      payload.embeds[0].fields.find((f: any) => f.name === 'Metadata').value);
+    expect(metadata[0]).toMatch(/\[HMAC:[0-9a-f]{16}\]/);
+    expect(metadata[1]).toBe(metadata[0]);
+  });
+
+  it('should route and fingerprint the same with and without hooks', async () => {
+    const createLogger = (beforeSend?: (notification: ErrorNotification) => ErrorNotification) => new ErrorLogger({
+      discord: [
+        { name: 'a', webhookUrl: `${DISCORD_URL}/a` },
+        { name: 'b', webhookUrl: `${DISCORD_URL}/b` }
+      ],
+      routing: {
+        rules: [{ match: { metadata: { 'user.email': /@bigcustomer\.com$/ } }, targets: ['a'] }],
+        defaultTargets: ['b']
+      },
+      beforeSend
+    });
+    const error = new Error('Checkout failed for ann@bigcustomer.com');
+    const capture = (logger: ErrorLogger) =>
+      logger.captureException(error, { user: { email: 'ann@bigcustomer.com' } });
+
+    const plain = await capture(createLogger());
+    const hooked = await capture(createLogger(notification => notification));
+
+    // The email is redacted before routing, so the rule can't match either way
+    expect(plain.deliveries.map(delivery => delivery.status)).toEqual(['skipped', 'sent']);
+    expect(hooked.deliveries).toEqual(plain.deliveries);
+    expect(hooked.fingerprint).toBe(plain.fingerprint);
+  });
+
+  it('should hash a value in breadcrumbs and metadata the same way', async () => {
+    let sent: ErrorNotification | undefined;
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: DISCORD_URL },
+      sanitization: { enabled: true, hashKey: 'k', keyStrategies: { email: 'hash' } },
+      beforeSend: (notification) => {
+        sent = notification;
+        return null;
+      }
+    });
+
+    logger.addBreadcrumb({ category: 'auth', message: 'Signed in', data: { email: 'a@b.com' } });
+    await logger.captureException(new Error('Checkout failed'), { email: 'a@b.com' });
+
+    expect(sent!.metadata!.email).toMatch(/^\[HMAC:[0-9a-f]{16}\]$/);
+    expect(sent!.breadcrumbs![0].data!.email).toBe(sent!.metadata!.email);
+  });
+
+  it('should drop notifications when a processor returns null', async () => {
+    const beforeSend = vi.fn((notification: ErrorNotification) => notification);
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: DISCORD_URL },
+      deduplication: { enabled: false },
+      eventProcessors: [
+        (notification) => (notification.stack?.includes('third-party.js') ? null : notification)
+      ],
+      beforeSend
+    });
+    const noise = new Error('Script error');
+    noise.stack = 'Error: Script error\n    at track (https://cdn.example.com/third-party.js:1:1)';
+
+    await logger.captureException(noise);
+    await logger.captureException(new Error('Real problem'));
+
+    expect(beforeSend).toHaveBeenCalledTimes(1);
+    expect(postsTo(DISCORD_URL).map(payload => payload.embeds[0].title)).toEqual(['[ERROR] Real problem']);
+  });
+
+  it('should keep sending when a processor throws', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: DISCORD_URL },
+      beforeSend: () => {
+        throw new Error('broken hook');
+      }
+    });
+
+    await logger.captureMessage('Still delivered', 'warning');
+
+    expect(postsTo(DISCORD_URL)).toHaveLength(1);
+    expect(consoleError).toHaveBeenCalledWith('[ErrorLogger] Event processor failed:', expect.any(Error));
+    consoleError.mockRestore();
+  });
+
+  it('should apply per-provider beforeSend to that channel only', async () => {
+    const logger = new ErrorLogger({
+      discord: {
+        webhookUrl: DISCORD_URL,
+        beforeSend: (notification) => ({ ...notification, message: 'discord only' })
+      },
+      slack: {
+        webhookUrl: SLACK_URL,
+        beforeSend: (notification) => (notification.severity === 'info' ? null : notification)
+      },
+      deduplication: { enabled: false }
+    });
+
+    await logger.captureMessage('Deployed', 'info');
+    await logger.captureMessage('Disk almost full', 'warning');
+
+    expect(postsTo(DISCORD_URL).map(payload => payload.embeds[0].title))
+      .toEqual(['[INFO] discord only', '[WARNING] discord only']);
+    expect(postsTo(SLACK_URL).map(payload => payload.attachments[0].blocks[0].text.text))
+      .toEqual(['WARNING: Disk almost full']);
+    expect(logger.getChannelStats().find(stats => stats.channel === 'slack:0')?.skipped).toBe(1);
+  });
+});
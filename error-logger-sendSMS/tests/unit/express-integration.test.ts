@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ErrorLogger } from '../../src/index.js';
+import { errorLoggerMiddleware, requestHandler } from '../../src/integrations/express.js';
+import type { DeliveryReport, ErrorNotification, IErrorLogger } from '../../src/types/index.js';
+
+vi.mock('axios');
+
+function createLogger() {
+  return {
+    captureException: vi.fn().mockResolvedValue({ id: 'evt-1', deliveries: [] } satisfies DeliveryReport),
+    captureMessage: vi.fn(),
+    configure: vi.fn(),
+    setEnvironment: vi.fn()
+  } satisfies IErrorLogger;
+}
+
+function createRequest(overrides: Record<string, unknown> = {}): any {
+  return {
+    method: 'POST',
+    originalUrl: '/api/users/42/orders?apiKey=abc123&page=2',
+    path: '/users/42/orders',
+    baseUrl: '/api',
+    route: { path: '/users/:id/orders' },
+    query: { apiKey: 'abc123', page: '2' },
+    headers: {
+      'content-type': 'application/json',
+      authorization: 'Bearer eyJhbGciOi',
+      cookie: 'session=abc',
+      'x-request-id': 'req-123'
+    },
+    ip: '203.0.113.7',
+    ...overrides
+  };
+}
+
+describe('Express integration', () => {
+  it('should capture errors with request context and pass them on', () => {
+    const logger = createLogger();
+    const next = vi.fn();
+    const error = new Error('Order service unavailable');
+
+    errorLoggerMiddleware(logger)(error, createRequest(), { statusCode: 200 }, next);
+
+    expect(next).toHaveBeenCalledWith(error);
+    const [captured, metadata, level] = logger.captureException.mock.calls[0];
+    expect(captured).toBe(error);
+    expect(level).toBe('error');
+    expect(metadata.request).toEqual({
+      method: 'POST',
+      route: '/api/users/:id/orders',
+      path: '/api/users/42/orders',
+      query: { apiKey: 'abc123', page: '2' },
+      headers: {
+        'content-type': 'application/json',
+        authorization: '[REDACTED]',
+        cookie: '[REDACTED]',
+        'x-request-id': 'req-123'
+      },
+      statusCode: 500,
+      requestId: 'req-123',
+      clientIp: '203.0.113.7',
+      durationMs: undefined
+    });
+  });
+
+  it('should report 4xx errors as warnings', () => {
+    const logger = createLogger();
+    const error = Object.assign(new Error('Not found'), { status: 404 });
+
+    errorLoggerMiddleware(logger)(error, createRequest(), {}, vi.fn());
+
+    const [, metadata, level] = logger.captureException.mock.calls[0];
+    expect(level).toBe('warning');
+    expect(metadata.request.statusCode).toBe(404);
+  });
+
+  it('should fall back to the response status code', () => {
+    const logger = createLogger();
+
+    errorLoggerMiddleware(logger)('Service unavailable', createRequest(), { statusCode: 503 }, vi.fn());
+
+    expect(logger.captureException.mock.calls[0][0]).toBe('Service unavailable');
+    expect(logger.captureException.mock.calls[0][1].request.statusCode).toBe(503);
+  });
+
+  it('should use the request id and timing from requestHandler', () => {
+    const logger = createLogger();
+    const req = createRequest({ headers: {}, ip: undefined, socket: { remoteAddress: '10.0.0.5' } });
+    const res = { setHeader: vi.fn() };
+    const next = vi.fn();
+
+    requestHandler()(req, res, next);
+    errorLoggerMiddleware(logger)(new Error('Boom'), req, res, vi.fn());
+
+    expect(next).toHaveBeenCalledWith();
+    const requestId = res.setHeader.mock.calls[0][1];
+    expect(res.setHeader).toHaveBeenCalledWith('x-request-id', expect.any(String));
+
+    const { request } = logger.captureException.mock.calls[0][1];
+    expect(request.requestId).toBe(requestId);
+    expect(request.clientIp).toBe('10.0.0.5');
+    expect(request.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should sanitize request data with the logger\'s sanitization config', async () => {
+    let sent: ErrorNotification | undefined;
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: 'https://discord.com/api/webhooks/1/express' },
+      sanitization: {
+        enabled: true,
+        keyStrategies: { 'metadata.request.headers.x-user-email': { keepFirst: 2 } }
+      },
+      beforeSend: notification => {
+        sent = notification;
+        return null;
+      }
+    });
+    const req = createRequest({
+      headers: { 'x-user-email': 'jo@example.com', authorization: 'Bearer eyJhbGciOi' }
+    });
+
+    errorLoggerMiddleware(logger)(new Error('Boom'), req, {}, vi.fn());
+
+    await vi.waitFor(() => expect(sent).toBeDefined());
+    const request = sent!.metadata!.request as Record<string, any>;
+    expect(request.query).toEqual({ apiKey: '[REDACTED]', page: '2' });
+    expect(request.headers).toEqual({ 'x-user-email': 'jo************', authorization: '[REDACTED]' });
+  });
+});
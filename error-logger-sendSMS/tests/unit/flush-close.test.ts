@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { ErrorLogger } from '../../src/index.js';
+
+vi.mock('axios');
+
+const WEBHOOK_URL = 'https://discord.com/api/webhooks/1/flush';
+
+describe('ErrorLogger flush and close', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockResolvedValue({ status: 204, data: '', headers: {} });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should resolve true immediately when nothing is pending', async () => {
+    const logger = new ErrorLogger({ discord: { webhookUrl: WEBHOOK_URL } });
+
+    await expect(logger.flush(10)).resolves.toBe(true);
+  });
+
+  it('should wait for fire-and-forget captures to be delivered', async () => {
+    let finishSend!: () => void;
+    vi.mocked(axios.post).mockImplementation(() => new Promise(resolve => {
+      finishSend = () => resolve({ status: 204, data: '', headers: {} });
+    }));
+    const logger = new ErrorLogger({ discord: { webhookUrl: WEBHOOK_URL } });
+
+    void logger.captureMessage('Background job failed', 'error');
+    const flushed = logger.flush(1000);
+    await vi.waitFor(() => expect(axios.post).toHaveBeenCalled());
+    finishSend();
+
+    await expect(flushed).resolves.toBe(true);
+  });
+
+  it('should resolve false when the timeout passes or a provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(axios.post).mockImplementation(() => new Promise(() => {}));
+    const stalled = new ErrorLogger({ discord: { webhookUrl: WEBHOOK_URL } });
+
+    void stalled.captureMessage('Never answered', 'error');
+
+    await expect(stalled.flush(20)).resolves.toBe(false);
+
+    vi.mocked(axios.post).mockRejectedValue(new Error('Network down'));
+    const failing = new ErrorLogger({ discord: { webhookUrl: WEBHOOK_URL }, retry: { maxAttempts: 1 } });
+
+    void failing.captureMessage('Lost', 'error');
+
+    await expect(failing.flush(1000)).resolves.toBe(false);
+  });
+
+  it('should send buffered summaries and the pending digest', async () => {
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: WEBHOOK_URL },
+      deduplication: { enabled: true, windowMs: 60000, stackFrames: 5 },
+      digest: { enabled: true, severityBelow: 'error', intervalMs: 60000 }
+    });
+
+    await logger.captureMessage('Cache miss', 'warning');
+    await logger.captureException(new Error('Repeated'));
+    await logger.captureException(new Error('Repeated'));
+    expect(axios.post).toHaveBeenCalledTimes(1);
+
+    await expect(logger.flush()).resolves.toBe(true);
+
+    expect(axios.post).toHaveBeenCalledTimes(3);
+    await logger.close();
+  });
+
+  it('should stop accepting notifications and release handlers on close', async () => {
+    vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+    const exceptionListeners = process.listenerCount('uncaughtException');
+    const logger = new ErrorLogger({ discord: { webhookUrl: WEBHOOK_URL } });
+    logger.installGlobalHandlers();
+
+    void logger.captureMessage('Last words', 'error');
+
+    await expect(logger.close()).resolves.toBe(true);
+    expect(process.listenerCount('uncaughtException')).toBe(exceptionListeners);
+
+    await logger.captureMessage('After close', 'error');
+    await logger.captureException(new Error('After close'));
+
+    expect(axios.post).toHaveBeenCalledTimes(1);
+  });
+});
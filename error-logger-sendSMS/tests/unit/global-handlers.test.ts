@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { ErrorLogger } from '../../src/index.js';
+
+vi.mock('axios');
+
+const WEBHOOK_URL = 'https://discord.com/api/webhooks/1/fatal';
+
+function newListener(event: 'uncaughtException' | 'unhandledRejection', before: Function[]): (...args: any[]) => void {
+  return process.listeners(event).find(listener => !before.includes(listener)) as (...args: any[]) => void;
+}
+
+describe('Global handlers', () => {
+  let logger: ErrorLogger;
+  let exit: ReturnType<typeof vi.spyOn>;
+  let exceptionListeners: Function[];
+  let rejectionListeners: Function[];
+
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockResolvedValue({ status: 204, data: '', headers: {} });
+    exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+    exceptionListeners = process.listeners('uncaughtException');
+    rejectionListeners = process.listeners('unhandledRejection');
+
+    logger = new ErrorLogger({
+      discord: { webhookUrl: WEBHOOK_URL },
+      deduplication: { enabled: false }
+    });
+  });
+
+  afterEach(() => {
+    logger.uninstallGlobalHandlers();
+    exit.mockRestore();
+  });
+
+  it('should install and uninstall one listener per event', () => {
+    logger.installGlobalHandlers();
+    logger.installGlobalHandlers();
+
+    expect(process.listeners('uncaughtException')).toHaveLength(exceptionListeners.length + 1);
+    expect(process.listeners('unhandledRejection')).toHaveLength(rejectionListeners.length + 1);
+
+    logger.uninstallGlobalHandlers();
+
+    expect(process.listeners('uncaughtException')).toHaveLength(exceptionListeners.length);
+    expect(process.listeners('unhandledRejection')).toHaveLength(rejectionListeners.length);
+  });
+
+  it('should report uncaught exceptions as fatal and exit after the send completes', async () => {
+    let finishSend!: () => void;
+    vi.mocked(axios.post).mockImplementation(() => new Promise(resolve => {
+      finishSend = () => resolve({ status: 204, data: '', headers: {} });
+    }));
+
+    logger.installGlobalHandlers({ exitCode: 7 });
+    newListener('uncaughtException', exceptionListeners)(new Error('Boom'));
+
+    await vi.waitFor(() => expect(axios.post).toHaveBeenCalled());
+    const embed = (vi.mocked(axios.post).mock.calls[0][1] as any).embeds[0];
+    expect(embed.title).toBe('[FATAL] Boom');
+    expect(exit).not.toHaveBeenCalled();
+
+    finishSend();
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(7));
+  });
+
+  it('should exit after the flush timeout when sends hang', async () => {
+    vi.mocked(axios.post).mockImplementation(() => new Promise(() => {}));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    logger.installGlobalHandlers({ flushTimeoutMs: 50 });
+    newListener('uncaughtException', exceptionListeners)(new Error('Boom'));
+
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(1));
+  });
+
+  it('should report unhandled rejections with non-Error reasons', async () => {
+    logger.installGlobalHandlers({ exitOnFatal: false });
+    newListener('unhandledRejection', rejectionListeners)('connection reset');
+
+    await vi.waitFor(() => expect(axios.post).toHaveBeenCalled());
+    const embed = (vi.mocked(axios.post).mock.calls[0][1] as any).embeds[0];
+    expect(embed.title).toBe('[FATAL] connection reset');
+    expect(embed.fields.find((field: any) => field.name === 'Metadata').value).toContain('unhandledRejection');
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(exit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { ErrorLogger } from '../../src/index.js';
+
+vi.mock('axios');
+
+const PROD_ALERTS = 'https://discord.com/api/webhooks/1/prod';
+const TEAM_BILLING = 'https://discord.com/api/webhooks/2/billing';
+
+describe('Multiple channels per provider', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockResolvedValue({ status: 204, data: '', headers: {} });
+  });
+
+  function createLogger() {
+    return new ErrorLogger({
+      discord: [
+        { name: 'prod-alerts', webhookUrl: PROD_ALERTS, username: 'Prod Bot', minSeverity: 'error' },
+        { name: 'team-billing', webhookUrl: TEAM_BILLING, avatarUrl: 'https://example.com/billing.png', threadId: '99' }
+      ],
+      retry: { maxAttempts: 2, baseDelay: 100, jitter: false },
+      deduplication: { enabled: false }
+    });
+  }
+
+  it('should post to every channel with its own settings', async () => {
+    await createLogger().captureMessage('Checkout failed', 'error');
+
+    const calls = vi.mocked(axios.post).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(calls[0][0]).toBe(PROD_ALERTS);
+    expect(calls[0][1]).toMatchObject({ username: 'Prod Bot' });
+    expect(calls[1][0]).toBe(`${TEAM_BILLING}?thread_id=99`);
+    expect(calls[1][1]).toMatchObject({ avatar_url: 'https://example.com/billing.png' });
+  });
+
+  it('should skip channels below their minimum severity', async () => {
+    const logger = createLogger();
+
+    await logger.captureMessage('Slow response', 'warning');
+
+    expect(axios.post).toHaveBeenCalledTimes(1);
+    expect(logger.getChannelStats()).toEqual([
+      { channel: 'discord:prod-alerts', provider: 'Discord', sent: 0, failed: 0, retries: 0, skipped: 1 },
+      { channel: 'discord:team-billing', provider: 'Discord', sent: 1, failed: 0, retries: 0, skipped: 0 }
+    ]);
+  });
+
+  it('should track retries and failures per channel', async () => {
+    vi.mocked(axios.post).mockImplementation(async (url: string) => {
+      if (url === PROD_ALERTS) {
+        throw new Error('Network down');
+      }
+      return { status: 204, data: '', headers: {} };
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const logger = createLogger();
+    await logger.captureMessage('Checkout failed', 'error');
+
+    const [prod, billing] = logger.getChannelStats();
+    expect(prod).toMatchObject({ sent: 0, failed: 1, retries: 1 });
+    expect(billing).toMatchObject({ sent: 1, failed: 0, retries: 0 });
+  });
+
+  it('should reject duplicate channel names', () => {
+    expect(() => new ErrorLogger({
+      slack: [
+        { name: 'alerts', webhookUrl: 'https://hooks.slack.com/services/A' },
+        { name: 'alerts', webhookUrl: 'https://hooks.slack.com/services/B' }
+      ]
+    })).toThrow('Duplicate channel: slack:alerts');
+  });
+
+  it('should reject routing targets that match no channel', () => {
+    expect(() => new ErrorLogger({
+      slack: { name: 'ops', webhookUrl: 'https://hooks.slack.com/services/A' },
+      routing: { rules: [{ match: { severity: 'fatal' }, targets: ['discord'] }] }
+    })).toThrow('Routing rule 0 targets unknown provider or channel "discord"');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { ErrorLogger } from '../../src/index.js';
+import { NotificationFilter } from '../../src/utils/notification-filter.js';
+import type { ErrorNotification } from '../../src/types/index.js';
+
+vi.mock('axios');
+
+function createNotification(overrides: Partial<ErrorNotification> = {}): ErrorNotification {
+  return {
+    message: 'Test error',
+    severity: 'error',
+    timestamp: new Date().toISOString(),
+    ...overrides
+  };
+}
+
+describe('NotificationFilter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should ignore errors by message, type or "Type: message"', () => {
+    const filter = new NotificationFilter({ ignoreErrors: ['ResizeObserver loop', /^ChunkLoadError$/, /^AbortError: /g] });
+
+    expect(filter.check(createNotification({ message: 'ResizeObserver loop limit exceeded' }))).toBe('ignored');
+    expect(filter.check(createNotification({ message: 'Loading chunk 7 failed', errorType: 'ChunkLoadError' }))).toBe('ignored');
+    expect(filter.check(createNotification({ message: 'aborted', errorType: 'AbortError' }))).toBe('ignored');
+    expect(filter.check(createNotification({ message: 'aborted', errorType: 'AbortError' }))).toBe('ignored');
+    expect(filter.check(createNotification({ message: 'Payment failed', errorType: 'Error' }))).toBeUndefined();
+  });
+
+  it('should apply denyUrls before allowUrls and keep notifications without a URL', () => {
+    const filter = new NotificationFilter({
+      denyUrls: [/\/admin\//],
+      allowUrls: ['https://app.example.com']
+    });
+
+    expect(filter.check(createNotification({ url: 'https://app.example.com/admin/users' }))).toBe('deniedUrl');
+    expect(filter.check(createNotification({ url: 'https://localhost:3000/' }))).toBe('deniedUrl');
+    expect(filter.check(createNotification({ url: 'https://app.example.com/cart' }))).toBeUndefined();
+    expect(filter.check(createNotification())).toBeUndefined();
+  });
+
+  it('should sample per severity', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const filter = new NotificationFilter({ sampleRates: { info: 0.1, warning: 0.9 } });
+
+    expect(filter.check(createNotification({ severity: 'info' }))).toBe('sampled');
+    expect(filter.check(createNotification({ severity: 'warning' }))).toBeUndefined();
+    expect(filter.check(createNotification({ severity: 'error' }))).toBeUndefined();
+  });
+
+  it('should let the sampler override sampleRates and fall back when it returns undefined', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const filter = new NotificationFilter({
+      sampleRates: { info: 0 },
+      sampler: (notification) => {
+        if (notification.metadata?.vip) {
+          return true;
+        }
+        return notification.message.startsWith('Health') ? 0.01 : undefined;
+      }
+    });
+
+    expect(filter.check(createNotification({ severity: 'info', metadata: { vip: true } }))).toBeUndefined();
+    expect(filter.check(createNotification({ message: 'Health check slow' }))).toBe('sampled');
+    expect(filter.check(createNotification({ severity: 'info' }))).toBe('sampled');
+  });
+});
+
+describe('ErrorLogger dropped counts', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockResolvedValue({ status: 204, data: '', headers: {} });
+  });
+
+  it('should count notifications dropped per reason and not send them', async () => {
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: 'https://discord.com/api/webhooks/1/filter' },
+      deduplication: { enabled: false },
+      sampleRates: { info: 0 },
+      ignoreErrors: ['Script error'],
+      beforeSend: (notification) => (notification.metadata?.drop ? null : notification)
+    });
+
+    await logger.captureMessage('Heartbeat', 'info');
+    await logger.captureMessage('Heartbeat', 'info');
+    await logger.captureException(new Error('Script error.'));
+    await logger.captureException(new Error('Dropped by hook'), { drop: true });
+    await logger.captureException(new Error('Delivered'));
+
+    expect(logger.getDroppedCounts()).toEqual({ ignored: 1, deniedUrl: 0, sampled: 2, eventProcessor: 1 });
+    expect(axios.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid sample rates', () => {
+    expect(() => new ErrorLogger({
+      discord: { webhookUrl: 'https://discord.com/api/webhooks/1/filter' },
+      sampleRates: { warning: 1.5 }
+    })).toThrow('sampleRates.warning must be between 0 and 1');
+  });
+});
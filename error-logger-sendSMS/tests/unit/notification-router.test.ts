@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { NotificationRouter } from '../../src/utils/notification-router.js';
+import type { ErrorNotification, NotificationProvider } from '../../src/types/index.js';
+
+function createProvider(name: string, channel?: string): NotificationProvider {
+  return {
+    send: async () => {},
+    validateConfig: () => true,
+    getName: () => name,
+    getChannel: () => channel
+  };
+}
+
+function createNotification(overrides: Partial<ErrorNotification> = {}): ErrorNotification {
+  return {
+    message: 'Test error',
+    severity: 'error',
+    timestamp: new Date().toISOString(),
+    environment: 'production',
+    ...overrides
+  };
+}
+
+describe('NotificationRouter', () => {
+  const discord = createProvider('Discord', 'prod-alerts');
+  const slack = createProvider('Slack');
+  const providers = [discord, slack];
+
+  it('should send to all providers without routing config', () => {
+    const router = new NotificationRouter();
+
+    expect(router.route(createNotification(), providers)).toEqual(providers);
+  });
+
+  it('should route by severity to provider names', () => {
+    const router = new NotificationRouter({
+      rules: [
+        { match: { severity: 'error' }, targets: ['discord'] },
+        { match: { severity: ['warning', 'info'] }, targets: ['slack'] }
+      ]
+    });
+
+    expect(router.route(createNotification(), providers)).toEqual([discord]);
+    expect(router.route(createNotification({ severity: 'info' }), providers)).toEqual([slack]);
+  });
+
+  it('should route to named channels', () => {
+    const router = new NotificationRouter({
+      rules: [{ match: { environment: 'production', minSeverity: 'warning' }, targets: ['prod-alerts'] }]
+    });
+    const byKey = new NotificationRouter({ rules: [{ match: {}, targets: ['discord:prod-alerts'] }] });
+
+    expect(router.route(createNotification({ severity: 'warning' }), providers)).toEqual([discord]);
+    expect(byKey.route(createNotification(), providers)).toEqual([discord]);
+  });
+
+  it('should combine targets of matching rules unless stopped', () => {
+    const router = new NotificationRouter({
+      rules: [
+        { match: { message: /payment/i }, targets: ['slack'], stop: true },
+        { match: {}, targets: ['discord'] }
+      ]
+    });
+
+    expect(router.route(createNotification({ message: 'Payment failed' }), providers)).toEqual([slack]);
+    expect(router.route(createNotification(), providers)).toEqual([discord]);
+  });
+
+  it('should match metadata keys and values', () => {
+    const router = new NotificationRouter({
+      rules: [
+        { match: { metadata: { 'user.plan': 'enterprise', team: /^bill/ } }, targets: ['slack'] },
+        { match: { metadataKeys: ['orderId'] }, targets: ['discord'] }
+      ],
+      defaultTargets: []
+    });
+
+    const billing = createNotification({ metadata: { user: { plan: 'enterprise' }, team: 'billing' } });
+    const order = createNotification({ metadata: { orderId: 42 } });
+
+    expect(router.route(billing, providers)).toEqual([slack]);
+    expect(router.route(order, providers)).toEqual([discord]);
+    expect(router.route(createNotification(), providers)).toEqual([]);
+  });
+
+  it('should fall back to all providers when no rule matches', () => {
+    const router = new NotificationRouter({
+      rules: [{ match: { environment: 'staging' }, targets: ['slack'] }]
+    });
+
+    expect(router.route(createNotification(), providers)).toEqual(providers);
+  });
+
+  it('should reject targets that name no provider or channel', () => {
+    const router = new NotificationRouter({
+      rules: [{ name: 'payments', match: { message: /payment/i }, targets: ['discord', 'pager'] }]
+    });
+
+    expect(() => router.validateTargets(providers))
+      .toThrow('Routing rule "payments" targets unknown provider or channel "pager"');
+    expect(() => new NotificationRouter({ rules: [], defaultTargets: ['Prod-Alerts'] }).validateTargets(providers))
+      .not.toThrow();
+    expect(() => new NotificationRouter({ rules: [], defaultTargets: ['teams'] }).validateTargets(providers))
+      .toThrow('routing.defaultTargets targets unknown provider or channel "teams"');
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import axios from 'axios';
+import { Outbox } from '../../src/utils/outbox.js';
+import { ErrorLogger } from '../../src/index.js';
+import type { ErrorNotification } from '../../src/types/index.js';
+
+vi.mock('axios');
+
+const WEBHOOK_URL = 'https://discord.com/api/webhooks/1/outbox';
+
+function createNotification(message: string): ErrorNotification {
+  return {
+    message,
+    severity: 'error',
+    timestamp: new Date().toISOString(),
+    environment: 'test'
+  };
+}
+
+describe('Outbox', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'error-logger-outbox-'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries as JSON lines', async () => {
+    const outbox = new Outbox({ enabled: true, directory });
+
+    await outbox.enqueue('discord:0', createNotification('First'));
+    await outbox.enqueue('slack:0', createNotification('Second'));
+
+    const lines = (await readFile(join(directory, 'outbox.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({ channel: 'discord:0', notification: { message: 'First' } });
+  });
+
+  it('should append entries without rewriting the file', async () => {
+    const outbox = new Outbox({ enabled: true, directory });
+    const file = join(directory, 'outbox.jsonl');
+
+    await outbox.enqueue('discord:0', createNotification('First'));
+    const { ino } = await stat(file);
+    await outbox.enqueue('discord:0', createNotification('Second'));
+
+    expect((await stat(file)).ino).toBe(ino);
+  });
+
+  it('should keep only entries that were not delivered', async () => {
+    const outbox = new Outbox({ enabled: true, directory });
+    await outbox.enqueue('discord:0', createNotification('First'));
+    await outbox.enqueue('discord:0', createNotification('Second'));
+
+    const delivered = await outbox.replay(async entry => entry.notification.message === 'First');
+
+    expect(delivered).toBe(1);
+    expect((await outbox.pending()).map(entry => entry.notification.message)).toEqual(['Second']);
+  });
+
+  it('should drop the oldest entries beyond maxItems', async () => {
+    const outbox = new Outbox({ enabled: true, directory, maxItems: 2 });
+
+    for (const message of ['One', 'Two', 'Three']) {
+      await outbox.enqueue('discord:0', createNotification(message));
+    }
+
+    expect((await outbox.pending()).map(entry => entry.notification.message)).toEqual(['Two', 'Three']);
+  });
+
+  it('should compact the file on enqueue once a cap is hit', async () => {
+    const outbox = new Outbox({ enabled: true, directory, maxItems: 2 });
+
+    for (const message of ['One', 'Two', 'Three']) {
+      await outbox.enqueue('discord:0', createNotification(message));
+    }
+
+    const lines = (await readFile(join(directory, 'outbox.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).notification.message)).toEqual(['Two', 'Three']);
+  });
+
+  it('should drop the oldest entries beyond maxBytes', async () => {
+    const outbox = new Outbox({ enabled: true, directory, maxBytes: 1024 });
+
+    for (let i = 0; i < 5; i++) {
+      await outbox.enqueue('discord:0', createNotification(`${i}:${'x'.repeat(300)}`));
+    }
+
+    const pending = await outbox.pending();
+    expect(pending.length).toBeLessThan(5);
+    expect(pending[pending.length - 1].notification.message.startsWith('4:')).toBe(true);
+  });
+
+  it('should move expired entries to the dead-letter file', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const outbox = new Outbox({ enabled: true, directory, maxAgeMs: 60000 });
+    await outbox.enqueue('discord:0', createNotification('Stale'));
+
+    vi.setSystemTime(Date.now() + 120000);
+    await outbox.enqueue('discord:0', createNotification('Fresh'));
+
+    expect((await outbox.pending()).map(entry => entry.notification.message)).toEqual(['Fresh']);
+    expect((await outbox.deadLetters()).map(entry => entry.notification.message)).toEqual(['Stale']);
+  });
+});
+
+describe('ErrorLogger outbox', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'error-logger-outbox-'));
+    vi.mocked(axios.post).mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function createLogger() {
+    return new ErrorLogger({
+      discord: { webhookUrl: WEBHOOK_URL },
+      retry: { maxAttempts: 1 },
+      deduplication: { enabled: false },
+      outbox: { enabled: true, directory }
+    });
+  }
+
+  it('should persist failed deliveries and replay them on the next startup', async () => {
+    vi.mocked(axios.post).mockRejectedValue(new Error('Network down'));
+    await createLogger().captureMessage('Lost while offline', 'error');
+
+    const pending = await new Outbox({ enabled: true, directory }).pending();
+    expect(pending).toHaveLength(1);
+    expect(pending[0].channel).toBe('discord:0');
+
+    vi.mocked(axios.post).mockResolvedValue({ status: 204, data: '', headers: {} });
+    const logger = createLogger();
+
+    // The startup replay is already in flight; replayOutbox() joins it
+    expect(await logger.replayOutbox()).toBe(1);
+    expect(axios.post).toHaveBeenLastCalledWith(
+      WEBHOOK_URL,
+      expect.objectContaining({ embeds: [expect.objectContaining({ title: '[ERROR] Lost while offline' })] }),
+      expect.anything()
+    );
+    expect(await new Outbox({ enabled: true, directory }).pending()).toHaveLength(0);
+    expect(logger.getChannelStats()[0].sent).toBe(1);
+  });
+
+  it('should not write anything when disabled', async () => {
+    vi.mocked(axios.post).mockRejectedValue(new Error('Network down'));
+    const logger = new ErrorLogger({
+      discord: { webhookUrl: WEBHOOK_URL },
+      retry: { maxAttempts: 1 },
+      outbox: { enabled: false, directory }
+    });
+
+    await logger.captureMessage('Dropped', 'error');
+
+    expect(await new Outbox({ enabled: true, directory }).pending()).toHaveLength(0);
+  });
+});
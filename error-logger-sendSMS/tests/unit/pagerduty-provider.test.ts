@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ErrorLogger } from '../../src/index.js';
+import { PagerDutyProvider } from '../../src/providers/pagerduty-provider.js';
+import { RetryManager } from '../../src/utils/retry-manager.js';
+import type { ErrorNotification } from '../../src/types/index.js';
+
+describe('PagerDutyProvider', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let events: any[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        const event = JSON.parse(data);
+        events.push(event);
+        res.writeHead(202, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'success', dedup_key: event.dedup_key }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v2/enqueue`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    events = [];
+  });
+
+  const notification: ErrorNotification = {
+    message: 'Database connection failed',
+    severity: 'error',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    environment: 'production',
+    fingerprint: 'db-connection'
+  };
+
+  it('should send trigger events with the fingerprint as dedup key', async () => {
+    const provider = new PagerDutyProvider({ routingKey: 'R0UTING', endpoint }, new RetryManager({ maxAttempts: 1 }));
+
+    await provider.send(notification);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      routing_key: 'R0UTING',
+      event_action: 'trigger',
+      dedup_key: 'db-connection',
+      payload: { summary: 'Database connection failed', severity: 'error', source: 'production' }
+    });
+  });
+
+  it('should ignore notifications below the minimum severity', async () => {
+    const provider = new PagerDutyProvider({ routingKey: 'R0UTING', endpoint }, new RetryManager({ maxAttempts: 1 }));
+
+    await provider.send({ ...notification, severity: 'warning' });
+
+    expect(events).toHaveLength(0);
+  });
+
+  it('should apply a custom severity map', async () => {
+    const provider = new PagerDutyProvider(
+      { routingKey: 'R0UTING', endpoint, severityMap: { error: 'critical' } },
+      new RetryManager({ maxAttempts: 1 })
+    );
+
+    await provider.send(notification);
+
+    expect(events[0].payload.severity).toBe('critical');
+  });
+
+  it('should resolve incidents through ErrorLogger.resolve', async () => {
+    const logger = new ErrorLogger({ pagerduty: { routingKey: 'R0UTING', endpoint } });
+
+    await logger.captureException(new Error('Database connection failed'), { fingerprint: 'db-connection' });
+    await logger.resolve('db-connection');
+
+    expect(events.map(event => event.event_action)).toEqual(['trigger', 'resolve']);
+    expect(events[1].dedup_key).toBe('db-connection');
+  });
+
+  it('should report the computed fingerprint so the incident can be resolved', async () => {
+    const logger = new ErrorLogger({ pagerduty: { routingKey: 'R0UTING', endpoint } });
+
+    const report = await logger.captureException(new Error('Replica lag too high'));
+    await logger.resolve(report.fingerprint!);
+
+    expect(report.fingerprint).toEqual(expect.any(String));
+    expect(events.map(event => event.dedup_key)).toEqual([report.fingerprint, report.fingerprint]);
+  });
+});
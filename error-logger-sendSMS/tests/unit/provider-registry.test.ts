@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ErrorLogger } from '../../src/index.js';
+import { ProviderRegistry } from '../../src/providers/provider-registry.js';
+import type { NotificationProvider } from '../../src/types/index.js';
+
+function createProvider(name: string, valid: boolean = true): NotificationProvider {
+  return {
+    send: vi.fn().mockResolvedValue(undefined),
+    validateConfig: () => valid,
+    getName: () => name
+  };
+}
+
+describe('ProviderRegistry', () => {
+  it('should create providers from registered factories', () => {
+    const registry = new ProviderRegistry();
+    const provider = createProvider('Custom');
+    registry.register('custom', () => provider);
+
+    expect(registry.has('custom')).toBe(true);
+    expect(registry.create('custom', {}, { retryManager: {} as any })).toBe(provider);
+  });
+
+  it('should reject providers with invalid configuration', () => {
+    const registry = new ProviderRegistry();
+    registry.register('custom', () => createProvider('Custom', false));
+
+    expect(() => registry.create('custom', {}, { retryManager: {} as any }))
+      .toThrow('Invalid Custom configuration');
+  });
+
+  it('should throw for unknown providers', () => {
+    const registry = new ProviderRegistry();
+
+    expect(() => registry.create('missing', {}, { retryManager: {} as any }))
+      .toThrow('Unknown provider: missing');
+  });
+});
+
+describe('ErrorLogger providers', () => {
+  afterEach(() => {
+    ErrorLogger.unregisterProvider('pager');
+  });
+
+  it('should send to provider instances passed in config', async () => {
+    const provider = createProvider('Custom');
+    const logger = new ErrorLogger({ providers: [provider] });
+
+    await logger.captureMessage('Hello', 'info');
+
+    expect(provider.send).toHaveBeenCalledWith(expect.objectContaining({ message: 'Hello' }));
+  });
+
+  it('should build registered providers from providerOptions', async () => {
+    const provider = createProvider('Pager');
+    const factory = vi.fn().mockReturnValue(provider);
+    ErrorLogger.registerProvider('pager', factory);
+
+    const logger = new ErrorLogger({ providerOptions: { pager: { token: 'abc' } } });
+    await logger.captureMessage('Hello', 'info');
+
+    expect(factory).toHaveBeenCalledWith({ token: 'abc' }, expect.objectContaining({ retryManager: expect.anything() }));
+    expect(provider.send).toHaveBeenCalled();
+  });
+
+  it('should delegate validation to providers', () => {
+    expect(() => new ErrorLogger({ providers: [createProvider('Broken', false)] }))
+      .toThrow('Invalid Broken configuration');
+    expect(() => new ErrorLogger({ discord: { webhookUrl: 'http://example.com' } }))
+      .toThrow('Invalid Discord configuration');
+  });
+
+  it('should require at least one provider', () => {
+    expect(() => new ErrorLogger({})).toThrow('At least one provider must be configured');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RateLimiter, RateLimiterPool, parseRetryAfter } from '../../src/utils/rate-limiter.js';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow bursts up to capacity and queue the rest', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ capacity: 2, intervalMs: 1000 });
+    const acquired: number[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      limiter.acquire().then(() => acquired.push(i));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(acquired).toEqual([0, 1]);
+    expect(limiter.getQueueSize()).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(acquired).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should hold queued sends while paused', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ capacity: 5, intervalMs: 1000 });
+    const acquired = vi.fn();
+
+    limiter.pause(3000);
+    limiter.acquire().then(acquired);
+
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(acquired).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(acquired).toHaveBeenCalled();
+  });
+
+  it('should reject when the queue is full', async () => {
+    const limiter = new RateLimiter({ capacity: 1, intervalMs: 60000 }, 1);
+
+    await limiter.acquire();
+    limiter.acquire();
+
+    await expect(limiter.acquire()).rejects.toThrow('Rate limit queue is full');
+  });
+
+  it('should share limiters per key', () => {
+    const pool = new RateLimiterPool();
+    const rule = { capacity: 1, intervalMs: 1000 };
+
+    expect(pool.get('https://a', rule)).toBe(pool.get('https://a', rule));
+    expect(pool.get('https://a', rule)).not.toBe(pool.get('https://b', rule));
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds from numbers and strings', () => {
+    expect(parseRetryAfter(1.5)).toBe(1500);
+    expect(parseRetryAfter('30')).toBe(30000);
+  });
+
+  it('should return undefined for invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
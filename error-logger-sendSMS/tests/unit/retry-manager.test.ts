@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { RetryManager } from '../../src/utils/retry-manager.js';
+import { RateLimitError } from '../../src/utils/rate-limiter.js';
 
 describe('RetryManager', () => {
   it('should succeed on first attempt', async () => {
@@ -87,4 +88,59 @@ describe('RetryManager', () => {
     expect(delay2).toBeGreaterThanOrEqual(180); // ~200ms
     expect(delay2).toBeGreaterThan(delay1);
   });
+
+  it('should wait retryAfter on rate limit errors without opening the circuit breaker', async () => {
+    const manager = new RetryManager({
+      maxAttempts: 2,
+      baseDelay: 1000,
+      jitter: false
+    });
+
+    const fn = vi.fn().mockRejectedValue(new RateLimitError('Rate limited', 20));
+
+    for (let i = 0; i < 3; i++) {
+      const start = Date.now();
+      await expect(manager.executeWithRetry(fn)).rejects.toThrow('Rate limited');
+      expect(Date.now() - start).toBeLessThan(500);
+    }
+
+    expect(manager.isCircuitBreakerOpen()).toBe(false);
+  });
+
+  it('should notify listeners once the circuit breaker closes again', async () => {
+    const manager = new RetryManager({ maxAttempts: 1 });
+    const onClose = vi.fn();
+    manager.addCircuitCloseListener(onClose);
+
+    const failing = vi.fn().mockRejectedValue(new Error('Down'));
+    for (let i = 0; i < 5; i++) {
+      await expect(manager.executeWithRetry(failing)).rejects.toThrow('Down');
+    }
+    expect(manager.isCircuitBreakerOpen()).toBe(true);
+
+    // Half-open after the reset window; only a successful call closes it
+    const now = Date.now();
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now + 61000);
+    await manager.executeWithRetry(vi.fn().mockResolvedValue('ok'));
+    clock.mockRestore();
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+
+    await manager.executeWithRetry(vi.fn().mockResolvedValue('ok'));
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the highest attempt count of any call per key', async () => {
+    const manager = new RetryManager({ maxAttempts: 3, baseDelay: 1, jitter: false });
+    const first = {};
+    const second = {};
+
+    await manager.executeWithRetry(vi.fn().mockRejectedValueOnce(new Error('Flaky')).mockResolvedValue('ok'), undefined, first);
+    await manager.executeWithRetry(vi.fn().mockResolvedValue('ok'), undefined, first);
+    await manager.executeWithRetry(vi.fn().mockResolvedValue('ok'), undefined, second);
+
+    expect(manager.getAttempts(first)).toBe(2);
+    expect(manager.getAttempts(second)).toBe(1);
+    expect(manager.getAttempts({})).toBeUndefined();
+  });
 });
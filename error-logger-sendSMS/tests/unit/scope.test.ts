@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { ErrorLogger } from '../../src/index.js';
+import { Scope } from '../../src/utils/scope.js';
+import { MessageFormatter } from '../../src/utils/message-formatter.js';
+import type { ErrorNotification } from '../../src/types/index.js';
+
+vi.mock('axios');
+
+function sentEmbed(index: number): any {
+  return (vi.mocked(axios.post).mock.calls[index][1] as any).embeds[0];
+}
+
+describe('Scope', () => {
+  it('should apply user, tags and contexts to a notification', () => {
+    const scope = new Scope()
+      .setUser({ id: '42', username: 'ada' })
+      .setTags({ region: 'eu-west-1', plan: 'pro' })
+      .setContext('order', { id: 'o-1', total: 99.5 });
+
+    const notification = scope.applyTo({ message: 'Boom', severity: 'error', timestamp: '' });
+
+    expect(notification.user).toEqual({ id: '42', username: 'ada' });
+    expect(notification.tags).toEqual({ region: 'eu-west-1', plan: 'pro' });
+    expect(notification.contexts).toEqual({ order: { id: 'o-1', total: 99.5 } });
+  });
+
+  it('should leave notifications untouched when empty', () => {
+    const notification = new Scope().applyTo({ message: 'Boom', severity: 'error', timestamp: '' });
+
+    expect(notification).toEqual({ message: 'Boom', severity: 'error', timestamp: '' });
+  });
+
+  it('should not share state with its clones', () => {
+    const scope = new Scope().setTag('region', 'eu');
+    const clone = scope.clone().setTag('region', 'us').setContext('job', { id: 1 });
+
+    expect(scope.applyTo({ message: '', severity: 'info', timestamp: '' })).toEqual({
+      message: '', severity: 'info', timestamp: '', tags: { region: 'eu' }
+    });
+    expect(clone.applyTo({ message: '', severity: 'info', timestamp: '' }).tags).toEqual({ region: 'us' });
+  });
+});
+
+describe('ErrorLogger scope', () => {
+  let logger: ErrorLogger;
+
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.post).mockResolvedValue({ status: 204, data: '', headers: {} });
+    logger = new ErrorLogger({
+      discord: { webhookUrl: 'https://discord.com/api/webhooks/1/scope' },
+      deduplication: { enabled: false }
+    });
+  });
+
+  it('should merge scope data into every notification as fields', async () => {
+    logger.setUser({ id: '42' });
+    logger.setTag('release', '1.4.0');
+    logger.setContext('device', { os: 'iOS', version: 17 });
+
+    await logger.captureException(new Error('Boom'));
+    await logger.captureMessage('Hello', 'info');
+
+    for (const index of [0, 1]) {
+      const fields = sentEmbed(index).fields;
+      expect(fields).toContainEqual({ name: 'User', value: 'id: 42', inline: true });
+      expect(fields).toContainEqual({ name: 'Tags', value: 'release: 1.4.0', inline: false });
+      expect(fields).toContainEqual({ name: 'device', value: 'os: iOS\nversion: 17', inline: false });
+      expect(fields.find((field: any) => field.name === 'Metadata')).toBeUndefined();
+    }
+  });
+
+  it('should apply withScope overrides only inside the callback', async () => {
+    logger.setTag('release', '1.4.0');
+
+    await logger.withScope((scope) => {
+      scope.setTag('job', 'nightly-sync');
+      scope.setUser({ id: 'system' });
+      return logger.captureMessage('Job failed', 'error');
+    });
+    await logger.captureMessage('After', 'error');
+
+    expect(sentEmbed(0).fields).toContainEqual({ name: 'Tags', value: 'release: 1.4.0\njob: nightly-sync', inline: false });
+    expect(sentEmbed(0).fields).toContainEqual({ name: 'User', value: 'id: system', inline: true });
+    expect(sentEmbed(1).fields).toContainEqual({ name: 'Tags', value: 'release: 1.4.0', inline: false });
+    expect(sentEmbed(1).fields.find((field: any) => field.name === 'User')).toBeUndefined();
+  });
+
+  it('should clear the user and contexts with null', async () => {
+    logger.setUser({ id: '42' });
+    logger.setContext('device', { os: 'iOS' });
+    logger.setUser(null);
+    logger.setContext('device', null);
+
+    await logger.captureMessage('Hello', 'info');
+
+    const names = sentEmbed(0).fields.map((field: any) => field.name);
+    expect(names).not.toContain('User');
+    expect(names).not.toContain('device');
+  });
+});
+
+describe('MessageFormatter scope fields', () => {
+  const formatter = new MessageFormatter();
+  const notification: ErrorNotification = {
+    message: 'Boom',
+    severity: 'error',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    user: { id: '42', username: 'ada' },
+    tags: { region: 'eu' },
+    contexts: { order: { id: 'o-1', items: [1, 2] } }
+  };
+
+  it('should render Slack fields and sections', () => {
+    const blocks = formatter.formatForSlack(notification).attachments[0].blocks;
+    const texts = JSON.stringify(blocks);
+
+    expect(texts).toContain('*User:*\\nid: 42\\nusername: ada');
+    expect(texts).toContain('*Tags:*\\nregion: eu');
+    expect(texts).toContain('*order:*\\nid: o-1\\nitems: [1,2]');
+  });
+
+  it('should render Teams facts', () => {
+    const body = formatter.formatForTeams(notification).attachments[0].content.body;
+    const facts = body.filter((element: any) => element.type === 'FactSet').flatMap((element: any) => element.facts);
+
+    expect(facts).toContainEqual({ title: 'User', value: 'id=42, username=ada' });
+    expect(facts).toContainEqual({ title: 'Tags', value: 'region=eu' });
+    expect(facts).toContainEqual({ title: 'items', value: '[1,2]' });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ErrorLogger } from '../../src/index.js';
+import { SmsProvider } from '../../src/providers/sms-provider.js';
+import { PartialDeliveryError } from '../../src/providers/base-provider.js';
+import { Outbox } from '../../src/utils/outbox.js';
+import { RetryManager } from '../../src/utils/retry-manager.js';
+import { MessageFormatter } from '../../src/utils/message-formatter.js';
+import type { ErrorNotification, SmsConfig } from '../../src/types/index.js';
+
+interface ReceivedRequest {
+  url?: string;
+  authorization?: string;
+  body: URLSearchParams;
+}
+
+describe('SmsProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[] = [];
+  let failing = new Set<string>();
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        const body = new URLSearchParams(data);
+        if (failing.has(body.get('To')!)) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ message: 'Invalid number' }));
+          return;
+        }
+        received.push({ url: req.url, authorization: req.headers.authorization, body });
+        res.writeHead(201, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ sid: 'SM123' }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    failing = new Set();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createProvider(overrides: Partial<SmsConfig> = {}): SmsProvider {
+    return new SmsProvider(
+      { accountSid: 'AC123', authToken: 'auth', from: '+15550000000', to: ['+15551111111', '+15552222222'], baseUrl, ...overrides },
+      new RetryManager({ maxAttempts: 1 })
+    );
+  }
+
+  function createNotification(overrides: Partial<ErrorNotification> = {}): ErrorNotification {
+    return {
+      message: 'Database connection failed',
+      severity: 'error',
+      timestamp: new Date().toISOString(),
+      environment: 'production',
+      ...overrides
+    };
+  }
+
+  it('should post a message to every recipient', async () => {
+    await createProvider().send(createNotification());
+
+    expect(received).toHaveLength(2);
+    expect(received[0].url).toBe('/2010-04-01/Accounts/AC123/Messages.json');
+    expect(received[0].authorization).toBe(`Basic ${Buffer.from('AC123:auth').toString('base64')}`);
+    expect(received.map(request => request.body.get('To'))).toEqual(['+15551111111', '+15552222222']);
+    expect(received[0].body.get('Body')).toBe('[ERROR] production: Database connection failed');
+  });
+
+  it('should report one attempt when every recipient succeeds first time', async () => {
+    const retryManager = new RetryManager({ maxAttempts: 3 });
+    const provider = new SmsProvider(
+      { accountSid: 'AC123', authToken: 'auth', from: '+15550000000', to: ['+15551111111', '+15552222222', '+15553333333'], baseUrl },
+      retryManager
+    );
+    const notification = createNotification();
+
+    await provider.send(notification);
+
+    expect(received).toHaveLength(3);
+    expect(retryManager.getAttempts(notification)).toBe(1);
+  });
+
+  it('should report and redeliver only the recipients that failed', async () => {
+    const provider = createProvider();
+    const notification = createNotification();
+    failing.add('+15552222222');
+
+    const error = await provider.send(notification).catch(e => e);
+
+    expect(error).toBeInstanceOf(PartialDeliveryError);
+    expect(error.pending.recipients).toEqual(['+15552222222']);
+    expect(received.map(request => request.body.get('To'))).toEqual(['+15551111111']);
+
+    failing.clear();
+    received = [];
+    await provider.send({ ...notification, recipients: error.pending.recipients });
+
+    expect(received.map(request => request.body.get('To'))).toEqual(['+15552222222']);
+  });
+
+  it('should persist only the failed recipients to the outbox and replay to them', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'error-logger-sms-'));
+    try {
+      const logger = new ErrorLogger({
+        sms: { accountSid: 'AC123', authToken: 'auth', from: '+15550000000', to: ['+15551111111', '+15552222222'], baseUrl },
+        retry: { maxAttempts: 1 },
+        rateLimit: { enabled: false },
+        outbox: { enabled: true, directory }
+      });
+      failing.add('+15552222222');
+
+      await logger.captureMessage('Disk full', 'error');
+
+      const pending = await new Outbox({ enabled: true, directory }).pending();
+      expect(pending.map(entry => entry.notification.recipients)).toEqual([['+15552222222']]);
+
+      failing.clear();
+      received = [];
+      expect(await logger.replayOutbox()).toBe(1);
+      expect(received.map(request => request.body.get('To'))).toEqual(['+15552222222']);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should skip notifications below the minimum severity or outside environments', async () => {
+    const provider = createProvider({ minSeverity: 'error', environments: ['production'] });
+
+    await provider.send(createNotification({ severity: 'warning' }));
+    await provider.send(createNotification({ environment: 'staging' }));
+
+    expect(received).toHaveLength(0);
+  });
+
+  it('should reject insecure remote base URLs', () => {
+    expect(() => createProvider({ baseUrl: 'http://sms.example.com' })).toThrow('Invalid SMS configuration');
+    expect(() => createProvider({ to: [] })).toThrow('Invalid SMS configuration');
+  });
+
+  it('should allow plain HTTP to local mock hosts', () => {
+    expect(() => createProvider({ baseUrl: 'http://twilio-mock:4010' })).not.toThrow();
+    expect(() => createProvider({ baseUrl: 'http://[::1]:4010' })).not.toThrow();
+    expect(() => createProvider({ baseUrl: 'http://127.0.0.1.example.com' })).toThrow('Invalid SMS configuration');
+  });
+});
+
+describe('MessageFormatter.formatForSms', () => {
+  it('should fit a single 160 character segment', () => {
+    const formatter = new MessageFormatter();
+    const text = formatter.formatForSms({
+      message: 'x'.repeat(500),
+      severity: 'error',
+      timestamp: new Date().toISOString(),
+      occurrences: { count: 312, windowMs: 300000, firstSeen: '', lastSeen: '' }
+    });
+
+    expect(text.length).toBeLessThanOrEqual(160);
+    expect(text.endsWith(' (+312 in 5 min)')).toBe(true);
+  });
+
+  it('should count GSM-7 extension characters twice and keep out UCS-2 characters', () => {
+    const formatter = new MessageFormatter();
+    const text = formatter.formatForSms({
+      message: '“Olá” – {käse} 日本 ' + '€'.repeat(200),
+      severity: 'error',
+      timestamp: new Date().toISOString()
+    });
+
+    expect(text.startsWith('[ERROR] "Ola" - {käse} ?? €')).toBe(true);
+    const septets = Array.from(text).reduce((total, char) => total + ('^{}\\[~]|€'.includes(char) ? 2 : 1), 0);
+    expect(septets).toBeLessThanOrEqual(160);
+    expect(septets).toBeGreaterThan(150);
+  });
+});
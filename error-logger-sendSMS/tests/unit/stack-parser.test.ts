@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { anonymizeStack, parseStack } from '../../src/utils/stack-parser.js';
+import { MessageFormatter } from '../../src/utils/message-formatter.js';
+
+const V8_STACK = [
+  'TypeError: Cannot read properties of undefined',
+  '    at Router.handle (/srv/app/node_modules/express/lib/router/index.js:284:7)',
+  '    at getUser (src/services/user.ts:42:13)',
+  '    at async Promise.all (index 0)',
+  '    at eval (eval at compile (src/template.ts:10:5), <anonymous>:1:1)',
+  '    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)',
+  '    at src/main.ts:7:3'
+].join('\n');
+
+describe('parseStack', () => {
+  it('should parse V8 frames and classify in-app frames', () => {
+    expect(parseStack(V8_STACK)).toEqual([
+      { function: 'Router.handle', file: '/srv/app/node_modules/express/lib/router/index.js', line: 284, column: 7, inApp: false },
+      { function: 'getUser', file: 'src/services/user.ts', line: 42, column: 13, inApp: true },
+      { function: 'async Promise.all', file: 'index 0', inApp: false },
+      { function: 'eval', file: 'src/template.ts', line: 10, column: 5, inApp: true },
+      { function: 'process.processTicksAndRejections', file: 'node:internal/process/task_queues', line: 95, column: 5, inApp: false },
+      { file: 'src/main.ts', line: 7, column: 3, inApp: true }
+    ]);
+  });
+
+  it('should parse SpiderMonkey and JavaScriptCore frames', () => {
+    const stack = [
+      'handleClick@https://app.example.com/static/main.js:12:34',
+      'dispatch@https://app.example.com/node_modules/@scope/lib/index.js:5:6',
+      '@https://app.example.com/static/main.js:1:1',
+      'https://app.example.com/static/vendor.js:3:9',
+      'forEach@[native code]'
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      { function: 'handleClick', file: 'https://app.example.com/static/main.js', line: 12, column: 34, inApp: true },
+      { function: 'dispatch', file: 'https://app.example.com/node_modules/@scope/lib/index.js', line: 5, column: 6, inApp: false },
+      { file: 'https://app.example.com/static/main.js', line: 1, column: 1, inApp: true },
+      { file: 'https://app.example.com/static/vendor.js', line: 3, column: 9, inApp: true },
+      { function: 'forEach', file: '[native code]', inApp: false }
+    ]);
+  });
+
+  it('should skip message lines', () => {
+    expect(parseStack('Error: invalid address ada@example.com')).toEqual([]);
+    expect(parseStack(undefined)).toEqual([]);
+  });
+});
+
+describe('anonymizeStack', () => {
+  it('should strip the working directory, dependency prefixes and home directories', () => {
+    const stack = [
+      'Error: Boom',
+      `    at run (${process.cwd()}/src/job.ts:3:9)`,
+      '    at load (/opt/app/node_modules/@babel/core/node_modules/debug/index.js:1:1)',
+      '    at main (/Users/ada/scripts/run.js:2:2)',
+      '    at boot (file:///home/ada/app/index.mjs:4:4)',
+      '    at win (C:\\Users\\ada\\app\\index.js:5:5)'
+    ].join('\n');
+
+    expect(anonymizeStack(stack)).toBe([
+      'Error: Boom',
+      '    at run (src/job.ts:3:9)',
+      '    at load (node_modules/debug/index.js:1:1)',
+      '    at main (/Users/<name>/scripts/run.js:2:2)',
+      '    at boot (file:///home/<name>/app/index.mjs:4:4)',
+      '    at win (C:\\Users\\<name>\\app\\index.js:5:5)'
+    ].join('\n'));
+  });
+});
+
+describe('MessageFormatter stack frames', () => {
+  it('should list in-app frames first and collapse library frames', () => {
+    const payload = new MessageFormatter().formatForDiscord({
+      message: 'Cannot read properties of undefined',
+      severity: 'error',
+      timestamp: '',
+      stack: V8_STACK,
+      frames: parseStack(V8_STACK)
+    });
+
+    expect(payload.embeds[0].fields[0].value).toBe([
+      'TypeError: Cannot read properties of undefined',
+      '    at getUser (src/services/user.ts:42:13)',
+      '    at eval (src/template.ts:10:5)',
+      '    at src/main.ts:7:3',
+      '    ... 3 library frames hidden'
+    ].join('\n'));
+  });
+
+  it('should collapse library frames in Telegram and email messages too', () => {
+    const formatter = new MessageFormatter();
+    const notification = {
+      message: 'Cannot read properties of undefined',
+      severity: 'error' as const,
+      timestamp: '',
+      stack: V8_STACK,
+      frames: parseStack(V8_STACK)
+    };
+
+    const [telegram] = formatter.formatForTelegram(notification);
+    const email = formatter.formatForEmail(notification);
+
+    expect(telegram).toContain('3 library frames hidden');
+    expect(email.text).toContain('    at getUser (src/services/user.ts:42:13)\n    at eval');
+    expect(email.text).toContain('3 library frames hidden');
+    expect(email.html).toContain('3 library frames hidden');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { TeamsProvider } from '../../src/providers/teams-provider.js';
+import { RetryManager } from '../../src/utils/retry-manager.js';
+import { MessageFormatter } from '../../src/utils/message-formatter.js';
+import type { ErrorNotification } from '../../src/types/index.js';
+
+vi.mock('axios');
+
+const notification: ErrorNotification = {
+  message: 'Database connection failed',
+  severity: 'error',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  stack: 'Error: Database connection failed\n    at connect (/app/db.ts:1:1)',
+  environment: 'production',
+  url: 'https://app.example.com/orders'
+};
+
+describe('MessageFormatter.formatForTeams', () => {
+  const formatter = new MessageFormatter();
+
+  it('should build an Adaptive Card message', () => {
+    const payload = formatter.formatForTeams(notification);
+    const card = payload.attachments[0].content;
+
+    expect(payload.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive');
+    expect(card.type).toBe('AdaptiveCard');
+    expect(card.body[0].style).toBe('attention');
+    expect(card.body[1].facts).toEqual(expect.arrayContaining([
+      { title: 'Environment', value: 'production' },
+      { title: 'URL', value: 'https://app.example.com/orders' }
+    ]));
+  });
+
+  it('should collapse the stack trace behind a toggle', () => {
+    const card = formatter.formatForTeams(notification).attachments[0].content;
+    const stack = card.body.find((element: any) => element.id === 'stackTrace');
+
+    expect(stack.isVisible).toBe(false);
+    expect(card.actions[0]).toMatchObject({ type: 'Action.ToggleVisibility', targetElements: ['stackTrace'] });
+  });
+
+  it('should colour by severity', () => {
+    const card = formatter.formatForTeams({ ...notification, severity: 'warning', stack: undefined }).attachments[0].content;
+
+    expect(card.body[0].style).toBe('warning');
+    expect(card.actions).toBeUndefined();
+  });
+});
+
+describe('TeamsProvider', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+  });
+
+  it('should accept incoming webhook and Workflows URLs', () => {
+    const retryManager = new RetryManager();
+
+    expect(() => new TeamsProvider({ webhookUrl: 'https://contoso.webhook.office.com/webhookb2/abc' }, retryManager)).not.toThrow();
+    expect(() => new TeamsProvider({ webhookUrl: 'https://prod-01.westus.logic.azure.com/workflows/abc' }, retryManager)).not.toThrow();
+    expect(() => new TeamsProvider({ webhookUrl: 'https://example.com/hook' }, retryManager)).toThrow('Invalid Teams configuration');
+  });
+
+  it('should post the card to the webhook', async () => {
+    vi.mocked(axios.post).mockResolvedValue({ status: 202, data: '', headers: {} });
+    const webhookUrl = 'https://contoso.webhook.office.com/webhookb2/abc';
+
+    await new TeamsProvider({ webhookUrl }, new RetryManager({ maxAttempts: 1 })).send(notification);
+
+    expect(axios.post).toHaveBeenCalledWith(
+      webhookUrl,
+      expect.objectContaining({ type: 'message' }),
+      expect.any(Object)
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { TelegramProvider } from '../../src/providers/telegram-provider.js';
+import { PartialDeliveryError } from '../../src/providers/base-provider.js';
+import { RetryManager } from '../../src/utils/retry-manager.js';
+import { MessageFormatter } from '../../src/utils/message-formatter.js';
+import type { ErrorNotification } from '../../src/types/index.js';
+
+describe('TelegramProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: Array<{ url?: string; body: any }> = [];
+  let rateLimitNext = false;
+  let failAfter = Infinity;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        if (rateLimitNext) {
+          rateLimitNext = false;
+          res.writeHead(429, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ ok: false, error_code: 429, parameters: { retry_after: 0.05 } }));
+          return;
+        }
+        if (received.length >= failAfter) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ ok: false, error_code: 400, description: 'Bad Request' }));
+          return;
+        }
+        received.push({ url: req.url, body: JSON.parse(data) });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: true, result: {} }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    failAfter = Infinity;
+  });
+
+  const notification: ErrorNotification = {
+    message: 'Payment failed (card_declined)',
+    severity: 'error',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    environment: 'production'
+  };
+
+  it('should call sendMessage with chat and topic ids', async () => {
+    const provider = new TelegramProvider(
+      { botToken: '123456:ABC-def', chatId: -1001234, messageThreadId: 42, baseUrl },
+      new RetryManager({ maxAttempts: 1 })
+    );
+
+    await provider.send(notification);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe('/bot123456:ABC-def/sendMessage');
+    expect(received[0].body).toMatchObject({ chat_id: -1001234, message_thread_id: 42, parse_mode: 'MarkdownV2' });
+    expect(received[0].body.text).toContain('Payment failed \\(card\\_declined\\)');
+  });
+
+  it('should honor retry_after on 429 responses', async () => {
+    const provider = new TelegramProvider(
+      { botToken: '123456:ABC-def', chatId: 1, baseUrl },
+      new RetryManager({ maxAttempts: 2, baseDelay: 5000 })
+    );
+    rateLimitNext = true;
+
+    const start = Date.now();
+    await provider.send(notification);
+
+    expect(received).toHaveLength(1);
+    expect(Date.now() - start).toBeLessThan(2000);
+  });
+
+  it('should resume a partly delivered split message after the parts already sent', async () => {
+    const provider = new TelegramProvider(
+      { botToken: '123456:ABC-def', chatId: 1, baseUrl },
+      new RetryManager({ maxAttempts: 1 })
+    );
+    const stack = ['Error: boom', ...Array.from({ length: 400 }, (_, i) => `    at fn${i} (/app/src/module.ts:${i}:1)`)].join('\n');
+    const split = { ...notification, stack };
+    failAfter = 2;
+
+    const error = await provider.send(split).catch(e => e);
+
+    expect(error).toBeInstanceOf(PartialDeliveryError);
+    expect(error.pending).toEqual({ sentParts: 2 });
+
+    const parts = new MessageFormatter().formatForTelegram(split).length;
+    received = [];
+    failAfter = Infinity;
+    await provider.send({ ...split, ...error.pending });
+
+    expect(received).toHaveLength(parts - 2);
+    expect(received[0].body.text).toContain('Stack Trace \\(2/');
+  });
+
+  it('should reject invalid tokens and remote plain HTTP', () => {
+    const retryManager = new RetryManager();
+
+    expect(() => new TelegramProvider({ botToken: 'nope', chatId: 1 }, retryManager)).toThrow('Invalid Telegram configuration');
+    expect(() => new TelegramProvider({ botToken: '1:a', chatId: 1, baseUrl: 'http://bots.example.com' }, retryManager))
+      .toThrow('Invalid Telegram configuration');
+  });
+});
+
+describe('MessageFormatter.formatForTelegram', () => {
+  const formatter = new MessageFormatter();
+
+  it('should escape MarkdownV2 special characters', () => {
+    const [text] = formatter.formatForTelegram({
+      message: 'a_b*c.d!',
+      severity: 'warning',
+      timestamp: '2024-01-01T00:00:00.000Z'
+    });
+
+    expect(text).toContain('\\[WARNING\\] a\\_b\\*c\\.d\\!');
+  });
+
+  it('should split long stack traces across messages', () => {
+    const stack = ['Error: boom', ...Array.from({ length: 400 }, (_, i) => `    at fn${i} (/app/src/module.ts:${i}:1)`)].join('\n');
+    const messages = formatter.formatForTelegram({
+      message: 'boom',
+      severity: 'error',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      stack
+    });
+
+    expect(messages.length).toBeGreaterThan(2);
+    messages.forEach(message => expect(message.length).toBeLessThanOrEqual(4096));
+    expect(messages[1]).toContain('Stack Trace \\(1/');
+    expect(messages.slice(1).join('\n')).toContain('at fn399');
+  });
+
+  it('should keep a long header within one message', () => {
+    const messages = formatter.formatForTelegram({
+      message: 'x.'.repeat(2000),
+      severity: 'error',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      url: 'https://example.com/' + '_'.repeat(1000),
+      tags: Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`tag${i}`, 'v.'.repeat(20)])),
+      contexts: Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`ctx${i}`, { detail: '-'.repeat(600) }])),
+      metadata: { payload: '`'.repeat(2000) },
+      stack: 'Error: boom\n    at fn (/app/src/module.ts:1:1)'
+    });
+
+    messages.forEach(message => expect(message.length).toBeLessThanOrEqual(4096));
+    expect(messages[0]).toContain('\\[ERROR\\] x\\.');
+    expect(messages[0]).toContain('*Timestamp:*');
+  });
+});
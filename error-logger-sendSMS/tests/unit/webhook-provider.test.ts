@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import { createHmac } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { WebhookProvider } from '../../src/providers/webhook-provider.js';
+import { RetryManager } from '../../src/utils/retry-manager.js';
+import { MessageFormatter } from '../../src/utils/message-formatter.js';
+import { hmacSha256Hex, sha256Hex } from '../../src/utils/hmac.js';
+import type { ErrorNotification } from '../../src/types/index.js';
+
+const notification: ErrorNotification = {
+  message: 'Payment failed',
+  severity: 'error',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  environment: 'production',
+  metadata: { orderId: 42, user: { id: 'u1' } }
+};
+
+describe('hmac', () => {
+  it('should match Node.js crypto', () => {
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(hmacSha256Hex('secret', 'é message')).toBe(createHmac('sha256', 'secret').update('é message').digest('hex'));
+  });
+});
+
+describe('MessageFormatter.formatForWebhook', () => {
+  const formatter = new MessageFormatter();
+
+  it('should return the notification without a template', () => {
+    expect(formatter.formatForWebhook(notification)).toEqual(notification);
+  });
+
+  it('should replace placeholders', () => {
+    const body = formatter.formatForWebhook(notification, {
+      title: '[{{severity}}] {{message}}',
+      order: '{{metadata.orderId}}',
+      details: { metadata: '{{metadata}}', user: 'User {{metadata.user.id}}', missing: '{{stack}}' },
+      tags: ['{{environment}}']
+    });
+
+    expect(body).toEqual({
+      title: '[error] Payment failed',
+      order: 42,
+      details: { metadata: notification.metadata, user: 'User u1', missing: null },
+      tags: ['production']
+    });
+  });
+});
+
+describe('WebhookProvider', () => {
+  let server: http.Server;
+  let url: string;
+  let received: Array<{ method?: string; headers: http.IncomingHttpHeaders; body: string }> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, headers: req.headers, body: data });
+        res.writeHead(204);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/errors`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it('should send the templated body with custom method and headers', async () => {
+    const provider = new WebhookProvider(
+      { url, method: 'PUT', headers: { 'X-Source': 'app' }, bodyTemplate: { text: '{{message}}' } },
+      new RetryManager({ maxAttempts: 1 })
+    );
+
+    await provider.send(notification);
+
+    expect(received[0].method).toBe('PUT');
+    expect(received[0].headers['x-source']).toBe('app');
+    expect(JSON.parse(received[0].body)).toEqual({ text: 'Payment failed' });
+  });
+
+  it('should sign the timestamp and body', async () => {
+    const provider = new WebhookProvider(
+      { url, signing: { secret: 'shh' } },
+      new RetryManager({ maxAttempts: 1 })
+    );
+
+    await provider.send(notification);
+
+    const { headers, body } = received[0];
+    const timestamp = headers['x-signature-timestamp'] as string;
+    const expected = createHmac('sha256', 'shh').update(`${timestamp}.${body}`).digest('hex');
+
+    expect(headers['x-signature']).toBe(`sha256=${expected}`);
+    expect(Math.abs(Date.now() / 1000 - Number(timestamp))).toBeLessThan(5);
+  });
+
+  it('should reject invalid configuration', () => {
+    const retryManager = new RetryManager();
+
+    expect(() => new WebhookProvider({ url: 'http://example.com/hook' }, retryManager)).toThrow('Invalid Webhook configuration');
+    expect(() => new WebhookProvider({ url, method: 'GET' as any }, retryManager)).toThrow('Invalid Webhook configuration');
+  });
+});